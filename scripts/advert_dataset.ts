@@ -0,0 +1,90 @@
+/**
+ * Normalised advert dataset
+ *
+ * `ingest_adverts.ts` merges the raw advert exports listed in `advert_sources.json` into one
+ * de-duplicated dataset, `src/data/adverts.jsonl` (one advert per line), with a manifest of
+ * the sources it came from. The pipeline scripts read adverts from here rather than from the
+ * raw exports, so column names, make and fuel spellings and price formats are handled once.
+ *
+ * Both files are git-ignored; run `npx tsx scripts/ingest_adverts.ts` to build them.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const ADVERTS_PATH = path.join(__dirname, '../src/data/adverts.jsonl');
+export const ADVERTS_MANIFEST_PATH = path.join(__dirname, '../src/data/adverts_manifest.json');
+
+export interface Advert {
+    source: string;        // Source id in `advert_sources.json`
+    snapshotDate: string;  // When the source was collected (YYYY, YYYY-MM or YYYY-MM-DD)
+    make: string;          // Lower case, aliases resolved (e.g. 'mercedes-benz')
+    model: string;         // Lower case
+    variant: string;       // As listed; '' if the source has none
+    title: string;         // As listed; '' if the source has none
+    fuel: string;          // Curve fuel key (e.g. 'petrol plug-in hybrid')
+    year: number;          // Model year
+    price: number;         // Asking price in pounds
+    miles: number | null;  // Odometer reading; null if missing or implausible
+}
+
+export interface SourceSummary {
+    id: string;
+    file: string;
+    description: string;
+    snapshotDate: string;
+    rows: number;          // Rows read
+    rejected: number;      // Rows missing a make, model, fuel, year or price
+    duplicates: number;    // Relisted adverts dropped in favour of a later (or earlier-read) copy
+    kept: number;
+}
+
+export interface AdvertsManifest {
+    generatedAt: string;
+    snapshotYear: number;  // Latest snapshot; pooled adverts are aligned to it (see `alignedModelYear`)
+    records: number;
+    sources: SourceSummary[];
+}
+
+/**
+ * Year an advert's source was collected
+ */
+export function snapshotYearOf(advert: Pick<Advert, 'snapshotDate'>): number {
+    return parseInt(advert.snapshotDate.slice(0, 4), 10);
+}
+
+/**
+ * The model year that would have the advert's age in `snapshotYear`. Adverts from different
+ * snapshots can then be pooled by model year: a 2019 car in a 2022 snapshot counts as a 2021
+ * car in a 2024 snapshot (both three years old).
+ */
+export function alignedModelYear(advert: Advert, snapshotYear: number): number {
+    return advert.year + (snapshotYear - snapshotYearOf(advert));
+}
+
+/**
+ * Read the manifest written alongside `adverts.jsonl`
+ */
+export function readAdvertsManifest(): AdvertsManifest {
+    if (!fs.existsSync(ADVERTS_MANIFEST_PATH)) {
+        throw new Error(`${path.basename(ADVERTS_MANIFEST_PATH)} not found. Run \`npx tsx scripts/ingest_adverts.ts\` first.`);
+    }
+    return JSON.parse(fs.readFileSync(ADVERTS_MANIFEST_PATH, 'utf-8'));
+}
+
+/**
+ * Stream the normalised adverts
+ */
+export async function* readAdverts(): AsyncGenerator<Advert> {
+    if (!fs.existsSync(ADVERTS_PATH)) {
+        throw new Error(`${path.basename(ADVERTS_PATH)} not found. Run \`npx tsx scripts/ingest_adverts.ts\` first.`);
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(ADVERTS_PATH), crlfDelay: Infinity });
+    for await (const line of lines) {
+        if (line) yield JSON.parse(line);
+    }
+}
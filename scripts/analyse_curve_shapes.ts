@@ -5,15 +5,9 @@
  * or do different models/fuel types have different shapes?
  */
 
-import fs from 'fs';
-import path from 'path';
-import { parse } from 'csv-parse';
-import { fileURLToPath } from 'url';
+import { alignedModelYear, readAdverts, readAdvertsManifest } from './advert_dataset';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CSV_PATH = path.join(__dirname, '../src/data/all_car_adverts.csv');
-
-const normalize = (str: string) => str?.trim().toLowerCase() || '';
+const SNAPSHOT_YEAR = readAdvertsManifest().snapshotYear; // Model years are aligned to the latest snapshot
 
 interface Record {
     make: string;
@@ -26,20 +20,12 @@ interface Record {
 async function loadData(): Promise<Record[]> {
     const records: Record[] = [];
 
-    const parser = fs
-        .createReadStream(CSV_PATH)
-        .pipe(parse({ columns: true, skip_empty_lines: true, trim: true }));
-
-    for await (const record of parser) {
-        const make = normalize(record.make);
-        const model = normalize(record.model);
-        const fuel = normalize(record.feul_type);
-        const year = parseInt(record.year, 10);
-        const price = parseFloat(record.car_price);
+    for await (const advert of readAdverts()) {
+        const { make, model, fuel, price } = advert;
+        const year = alignedModelYear(advert, SNAPSHOT_YEAR);
 
-        if (!make || !model || !fuel || isNaN(year) || isNaN(price)) continue;
         if (price < 1000 || price > 200000) continue;
-        if (year < 2017 || year > 2022) continue;
+        if (year < SNAPSHOT_YEAR - 5 || year > SNAPSHOT_YEAR) continue;
 
         records.push({ make, model, fuel, year, price });
     }
@@ -90,13 +76,13 @@ function calculateYearlyRates(records: Record[], keyFn: (r: Record) => string):
             return 1 - retention;
         };
 
-        // 2022 is our "new" baseline
+        // The snapshot year is our "new" baseline
         results.set(key, {
-            year0to1: getRate(2021, 2022),
-            year1to2: getRate(2020, 2021),
-            year2to3: getRate(2019, 2020),
-            year3to4: getRate(2018, 2019),
-            year4to5: getRate(2017, 2018),
+            year0to1: getRate(SNAPSHOT_YEAR - 1, SNAPSHOT_YEAR),
+            year1to2: getRate(SNAPSHOT_YEAR - 2, SNAPSHOT_YEAR - 1),
+            year2to3: getRate(SNAPSHOT_YEAR - 3, SNAPSHOT_YEAR - 2),
+            year3to4: getRate(SNAPSHOT_YEAR - 4, SNAPSHOT_YEAR - 3),
+            year4to5: getRate(SNAPSHOT_YEAR - 5, SNAPSHOT_YEAR - 4),
         });
     }
 
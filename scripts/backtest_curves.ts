@@ -0,0 +1,292 @@
+/**
+ * Backtest the depreciation curves against market prices
+ *
+ * Every pair of model years of the same make/model/fuel in the adverts snapshot is held out
+ * as a test: given the average price of the newer year (age n), predict the average price of
+ * the older one (age n + horizon) with `calculateResidualFactor`, exactly as the app would
+ * value a car of age n on the snapshot date (`asOf`). Pairs come from `market_stats.json`
+ * and, when it is to hand, the normalised `adverts.jsonl` (see `ingest_adverts.ts`), which
+ * also carries mileage, so the mileage adjustment is tested too. Special variants are excluded, as in `market_stats.json`.
+ *
+ * Usage:
+ *   npx tsx scripts/backtest_curves.ts [--curves <version or path>] [--out path/to/report.json]
+ *
+ * `--curves` defaults to the active dataset; a version is looked up in `src/data/curves/`.
+ *
+ * Writes MAPE (mean absolute percentage error of the predicted price) and bias (mean signed
+ * error; positive = we predict too high a resale value) overall and per curve level, make,
+ * fuel and horizon. The report is deterministic, so `git diff` on it after regenerating the
+ * curves shows whether the forecasts got better or worse.
+ *
+ * Note: the bundled curves are fitted on the same adverts, so this measures how well the
+ * curve shapes fit the market rather than true out-of-sample error.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { Car } from '../src/utils/carService';
+import { activeCurves } from '../src/utils/curveDatasets';
+import { DepreciationCurvesSchema, parseDataset } from '../src/utils/dataSchemas';
+import {
+    calculateResidualFactor,
+    findBestCurve,
+    type DepreciationCurves
+} from '../src/utils/depreciationCalculator';
+import { MARKET_SNAPSHOT_YEAR, marketStats } from '../src/utils/marketStats';
+import { matchSpecialVariant } from '../src/utils/specialVariants';
+import { ADVERTS_PATH, alignedModelYear, readAdverts } from './advert_dataset';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CURVES_DIR = path.join(__dirname, '../src/data/curves');
+const DEFAULT_OUTPUT_PATH = path.join(__dirname, '../src/data/backtest_report.json');
+
+const SNAPSHOT_YEAR = MARKET_SNAPSHOT_YEAR; // Year the adverts were collected
+const MAX_HORIZON = 5;      // Years ahead to predict
+const MAX_AGE = 15;         // Oldest starting age tested (older cars are priced as classics)
+const MIN_SAMPLES = 5;      // Adverts needed in each model year of a pair
+
+interface YearSample {
+    count: number;
+    avgPrice: number;
+    avgMiles: number | null; // Null when the source has no mileage
+}
+
+// make|model|fuel -> model year -> sample
+type SampleGroups = Map<string, Map<number, YearSample>>;
+
+interface PairResult {
+    make: string;
+    fuel: string;
+    level: string;
+    horizon: number;
+    error: number; // (predicted - actual) / actual
+}
+
+interface Metrics {
+    pairs: number;
+    mape: number;
+    bias: number;
+}
+
+interface SourceReport {
+    overall: Metrics;
+    byLevel: Record<string, Metrics>;
+    byHorizon: Record<string, Metrics>;
+    byFuel: Record<string, Metrics>;
+    byMake: Record<string, Metrics>;
+}
+
+function readArgs(): { curves: string | null; outputPath: string } {
+    const args = process.argv.slice(2);
+    const valueOf = (flag: string) => {
+        const index = args.indexOf(flag);
+        return index >= 0 ? args[index + 1] ?? null : null;
+    };
+    const outputPath = valueOf('--out');
+    return {
+        curves: valueOf('--curves'),
+        outputPath: outputPath ? path.resolve(outputPath) : DEFAULT_OUTPUT_PATH
+    };
+}
+
+// A version in src/data/curves/ (registered or not), or a path to a curves file
+function loadCurves(versionOrPath: string): DepreciationCurves {
+    const file = fs.existsSync(versionOrPath) ? versionOrPath : path.join(CURVES_DIR, `${versionOrPath}.json`);
+    return parseDataset(DepreciationCurvesSchema, JSON.parse(fs.readFileSync(file, 'utf-8')), path.basename(file));
+}
+
+function groupsFromMarketStats(): SampleGroups {
+    const groups: SampleGroups = new Map();
+    for (const [make, models] of Object.entries(marketStats)) {
+        for (const [model, fuels] of Object.entries(models)) {
+            for (const [fuel, years] of Object.entries(fuels)) {
+                const samples = new Map<number, YearSample>();
+                for (const [year, { count, avgPrice }] of Object.entries(years)) {
+                    samples.set(parseInt(year, 10), { count, avgPrice, avgMiles: null });
+                }
+                groups.set(`${make}|${model}|${fuel}`, samples);
+            }
+        }
+    }
+    return groups;
+}
+
+async function groupsFromAdverts(): Promise<SampleGroups> {
+    const totals = new Map<string, Map<number, { price: number; count: number; miles: number; milesCount: number }>>();
+
+    for await (const advert of readAdverts()) {
+        const { make, model, fuel, price, miles } = advert;
+        const year = alignedModelYear(advert, SNAPSHOT_YEAR);
+
+        if (price < 1000 || price > 300000) continue;
+        if (year < SNAPSHOT_YEAR - MAX_AGE - MAX_HORIZON || year > SNAPSHOT_YEAR) continue;
+
+        if (matchSpecialVariant(advert)) continue;
+
+        const key = `${make}|${model}|${fuel}`;
+        if (!totals.has(key)) totals.set(key, new Map());
+        const years = totals.get(key)!;
+        const entry = years.get(year) || { price: 0, count: 0, miles: 0, milesCount: 0 };
+        entry.price += price;
+        entry.count++;
+        if (miles !== null) {
+            entry.miles += miles;
+            entry.milesCount++;
+        }
+        years.set(year, entry);
+    }
+
+    const groups: SampleGroups = new Map();
+    for (const [key, years] of totals) {
+        const samples = new Map<number, YearSample>();
+        for (const [year, t] of years) {
+            samples.set(year, {
+                count: t.count,
+                avgPrice: t.price / t.count,
+                avgMiles: t.milesCount > 0 ? t.miles / t.milesCount : null
+            });
+        }
+        groups.set(key, samples);
+    }
+    return groups;
+}
+
+/**
+ * Predict every usable pair of model years in each group
+ */
+function backtest(groups: SampleGroups, dataset: DepreciationCurves): PairResult[] {
+    const asOf = new Date(SNAPSHOT_YEAR, 0, 1);
+    const results: PairResult[] = [];
+
+    for (const [key, samples] of groups) {
+        const [make, model, fuel] = key.split('|');
+
+        for (let age = 0; age <= MAX_AGE; age++) {
+            const newerYear = SNAPSHOT_YEAR - age;
+            const newer = samples.get(newerYear);
+            if (!newer || newer.count < MIN_SAMPLES) continue;
+
+            for (let horizon = 1; horizon <= MAX_HORIZON; horizon++) {
+                const older = samples.get(newerYear - horizon);
+                if (!older || older.count < MIN_SAMPLES) continue;
+
+                const car: Car = {
+                    registration: `${key}|${newerYear}`,
+                    make,
+                    model,
+                    yearOfManufacture: newerYear,
+                    fuelType: fuel,
+                    co2Emissions: 0,
+                    colour: '',
+                    basicPrice: newer.avgPrice,
+                    originalListPrice: 0
+                };
+
+                // The older cars' extra miles stand in for the miles the newer ones will cover
+                const options = newer.avgMiles !== null && older.avgMiles !== null
+                    ? {
+                        currentMileage: newer.avgMiles,
+                        annualMileage: Math.max(0, (older.avgMiles - newer.avgMiles) / horizon)
+                    }
+                    : {};
+
+                const factor = calculateResidualFactor(car, horizon, { ...options, asOf, dataset });
+                const predicted = newer.avgPrice * factor;
+                const curve = findBestCurve(make, model, fuel, matchSpecialVariant(car), dataset);
+
+                results.push({
+                    make,
+                    fuel,
+                    level: curve.level,
+                    horizon,
+                    error: (predicted - older.avgPrice) / older.avgPrice
+                });
+            }
+        }
+    }
+
+    return results;
+}
+
+function summarise(results: PairResult[]): Metrics {
+    const round = (n: number) => Math.round(n * 10000) / 10000;
+    const count = results.length;
+    return {
+        pairs: count,
+        mape: count ? round(results.reduce((sum, r) => sum + Math.abs(r.error), 0) / count) : 0,
+        bias: count ? round(results.reduce((sum, r) => sum + r.error, 0) / count) : 0
+    };
+}
+
+// Keys are sorted (horizons numerically) so the report diffs cleanly
+function summariseBy(results: PairResult[], keyFn: (r: PairResult) => string | number): Record<string, Metrics> {
+    const grouped = new Map<string | number, PairResult[]>();
+    for (const r of results) {
+        const key = keyFn(r);
+        if (!grouped.has(key)) grouped.set(key, []);
+        grouped.get(key)!.push(r);
+    }
+
+    const keys = [...grouped.keys()].sort((a, b) =>
+        typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+    );
+    return Object.fromEntries(keys.map(key => [String(key), summarise(grouped.get(key)!)]));
+}
+
+function buildSourceReport(results: PairResult[]): SourceReport {
+    return {
+        overall: summarise(results),
+        byLevel: summariseBy(results, r => r.level),
+        byHorizon: summariseBy(results, r => r.horizon),
+        byFuel: summariseBy(results, r => r.fuel),
+        byMake: summariseBy(results, r => r.make)
+    };
+}
+
+function printSummary(source: string, report: SourceReport) {
+    const percent = (n: number) => `${(n * 100).toFixed(1)}%`.padStart(9);
+    const row = (label: string, m: Metrics) =>
+        console.log(label.padEnd(20) + m.pairs.toString().padStart(8) + percent(m.mape) + percent(m.bias));
+
+    console.log(`\n${source}`);
+    console.log(''.padEnd(20) + 'Pairs'.padStart(8) + 'MAPE'.padStart(9) + 'Bias'.padStart(9));
+    console.log('-'.repeat(46));
+    row('Overall', report.overall);
+    for (const [horizon, m] of Object.entries(report.byHorizon)) row(`${horizon}-year horizon`, m);
+    for (const [level, m] of Object.entries(report.byLevel)) row(`${level} curves`, m);
+}
+
+async function main() {
+    const { curves, outputPath } = readArgs();
+    const dataset = curves ? loadCurves(curves) : activeCurves;
+
+    const sources: Record<string, SourceReport> = {
+        'market_stats.json': buildSourceReport(backtest(groupsFromMarketStats(), dataset))
+    };
+
+    if (fs.existsSync(ADVERTS_PATH)) {
+        sources['adverts.jsonl'] = buildSourceReport(backtest(await groupsFromAdverts(), dataset));
+    } else {
+        console.log('adverts.jsonl not found; backtesting market_stats.json only.');
+    }
+
+    const report = {
+        curves: {
+            version: dataset.version,
+            generatedAt: dataset.generatedAt
+        },
+        snapshotYear: SNAPSHOT_YEAR,
+        maxHorizon: MAX_HORIZON,
+        maxAge: MAX_AGE,
+        minSamples: MIN_SAMPLES,
+        sources
+    };
+
+    for (const [source, sourceReport] of Object.entries(sources)) printSummary(source, sourceReport);
+
+    fs.writeFileSync(outputPath, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nWrote ${path.relative(process.cwd(), outputPath)}`);
+}
+
+main().catch(console.error);
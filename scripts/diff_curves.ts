@@ -0,0 +1,213 @@
+/**
+ * Compare two depreciation curve datasets
+ *
+ * Shows what a regenerated dataset changes before it is made active: curves added and
+ * removed, curves whose rate, sample size, rate spread or mileage elasticity moved (largest
+ * rate change first) or that gained or lost a poor-fit flag, special variant modifiers, and
+ * the snapshot year and source.
+ *
+ * Usage:
+ *   npx tsx scripts/diff_curves.ts [old] <new> [--json path/to/diff.json]
+ *
+ * Each dataset is a version in `src/data/curves/` or a path to a curves file. With a single
+ * dataset, it is compared against the active one (see `src/utils/curveDatasets.ts`).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { activeCurves } from '../src/utils/curveDatasets';
+import { DepreciationCurvesSchema, parseDataset } from '../src/utils/dataSchemas';
+import type { CurveData, DepreciationCurves } from '../src/utils/depreciationCalculator';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const CURVES_DIR = path.join(__dirname, '../src/data/curves');
+
+const RATE_THRESHOLD = 0.005; // Rate changes smaller than this are not listed as changed
+
+interface CurveChange {
+    key: string;
+    rate: [number, number];
+    rateChange: number;
+    dataPoints: [number, number];
+    rateSpread: [number | null, number | null];
+    mileageElasticity: [number | null, number | null];
+    poorFit: [string | null, string | null];
+}
+
+interface ModifierChange {
+    key: string;
+    old: number | null;
+    new: number | null;
+}
+
+interface CurvesDiff {
+    old: { version: string; generatedAt: string; snapshotYear: number; source: string; records: number | null };
+    new: { version: string; generatedAt: string; snapshotYear: number; source: string; records: number | null };
+    added: { key: string; rate: number; dataPoints: number; poorFit: string | null }[];
+    removed: { key: string; rate: number; dataPoints: number; poorFit: string | null }[];
+    changed: CurveChange[];
+    unchanged: number;
+    specialModifiers: ModifierChange[];
+    ruleModifiers: ModifierChange[];
+}
+
+function readArgs(): { oldRef: string | null; newRef: string; jsonPath: string | null } {
+    const args = process.argv.slice(2);
+    const jsonIndex = args.indexOf('--json');
+    const jsonPath = jsonIndex >= 0 ? args[jsonIndex + 1] ?? null : null;
+    const refs = args.filter((_, i) => jsonIndex < 0 || (i !== jsonIndex && i !== jsonIndex + 1));
+
+    if (refs.length === 0 || refs.length > 2) {
+        console.error('Usage: npx tsx scripts/diff_curves.ts [old] <new> [--json path/to/diff.json]');
+        process.exit(1);
+    }
+
+    return {
+        oldRef: refs.length === 2 ? refs[0] : null,
+        newRef: refs[refs.length - 1],
+        jsonPath: jsonPath ? path.resolve(jsonPath) : null
+    };
+}
+
+// A version in src/data/curves/ (registered or not), or a path to a curves file
+function loadCurves(versionOrPath: string): DepreciationCurves {
+    const file = fs.existsSync(versionOrPath) ? versionOrPath : path.join(CURVES_DIR, `${versionOrPath}.json`);
+    return parseDataset(DepreciationCurvesSchema, JSON.parse(fs.readFileSync(file, 'utf-8')), path.basename(file));
+}
+
+function describe(dataset: DepreciationCurves): CurvesDiff['old'] {
+    return {
+        version: dataset.version,
+        generatedAt: dataset.generatedAt,
+        snapshotYear: dataset.snapshotYear,
+        source: dataset.provenance.source,
+        records: dataset.provenance.records ?? null
+    };
+}
+
+function diffModifiers(
+    oldModifiers: { [key: string]: number } = {},
+    newModifiers: { [key: string]: number } = {}
+): ModifierChange[] {
+    const keys = [...new Set([...Object.keys(oldModifiers), ...Object.keys(newModifiers)])].sort();
+    return keys
+        .map(key => ({ key, old: oldModifiers[key] ?? null, new: newModifiers[key] ?? null }))
+        .filter(change => change.old !== change.new);
+}
+
+function diffCurves(oldCurves: DepreciationCurves, newCurves: DepreciationCurves): CurvesDiff {
+    const summary = (key: string, curve: CurveData) => ({ key, rate: curve.rate, dataPoints: curve.dataPoints, poorFit: curve.poorFit ?? null });
+
+    const added = Object.entries(newCurves.curves)
+        .filter(([key]) => !(key in oldCurves.curves))
+        .map(([key, curve]) => summary(key, curve))
+        .sort((a, b) => a.key.localeCompare(b.key));
+    const removed = Object.entries(oldCurves.curves)
+        .filter(([key]) => !(key in newCurves.curves))
+        .map(([key, curve]) => summary(key, curve))
+        .sort((a, b) => a.key.localeCompare(b.key));
+
+    const changed: CurveChange[] = [];
+    let unchanged = 0;
+    for (const [key, before] of Object.entries(oldCurves.curves)) {
+        const after = newCurves.curves[key];
+        if (!after) continue;
+
+        const rateChange = after.rate - before.rate;
+        const poorFit: [string | null, string | null] = [before.poorFit ?? null, after.poorFit ?? null];
+        if (Math.abs(rateChange) < RATE_THRESHOLD && Boolean(poorFit[0]) === Boolean(poorFit[1])) {
+            unchanged++;
+            continue;
+        }
+        changed.push({
+            key,
+            rate: [before.rate, after.rate],
+            rateChange: Math.round(rateChange * 1000) / 1000,
+            dataPoints: [before.dataPoints, after.dataPoints],
+            rateSpread: [before.rateSpread ?? null, after.rateSpread ?? null],
+            mileageElasticity: [before.mileageElasticity ?? null, after.mileageElasticity ?? null],
+            poorFit
+        });
+    }
+    changed.sort((a, b) => Math.abs(b.rateChange) - Math.abs(a.rateChange) || a.key.localeCompare(b.key));
+
+    return {
+        old: describe(oldCurves),
+        new: describe(newCurves),
+        added,
+        removed,
+        changed,
+        unchanged,
+        specialModifiers: diffModifiers(oldCurves.specialModifiers, newCurves.specialModifiers),
+        ruleModifiers: diffModifiers(oldCurves.ruleModifiers, newCurves.ruleModifiers)
+    };
+}
+
+function printDiff(diff: CurvesDiff) {
+    const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+    const signed = (n: number) => `${n > 0 ? '+' : ''}${(n * 100).toFixed(1)}pp`;
+    const optional = (n: number | null) => (n === null ? '-' : n.toString());
+    const records = (n: number | null) => (n === null ? '' : `, ${n.toLocaleString('en-GB')} records`);
+
+    console.log(`Old: ${diff.old.version} (generated ${diff.old.generatedAt}, snapshot ${diff.old.snapshotYear}, ${diff.old.source}${records(diff.old.records)})`);
+    console.log(`New: ${diff.new.version} (generated ${diff.new.generatedAt}, snapshot ${diff.new.snapshotYear}, ${diff.new.source}${records(diff.new.records)})`);
+    if (diff.old.snapshotYear !== diff.new.snapshotYear) {
+        console.log(`Snapshot year changed: ${diff.old.snapshotYear} -> ${diff.new.snapshotYear}`);
+    }
+
+    console.log(`\n${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed, ${diff.unchanged} unchanged (rate within ${percent(RATE_THRESHOLD)}, same fit flag)`);
+
+    if (diff.added.length > 0) {
+        console.log('\nAdded:');
+        for (const c of diff.added) console.log(`  ${c.key.padEnd(36)}${percent(c.rate).padStart(8)}  (n=${c.dataPoints})${c.poorFit ? `  [poor fit: ${c.poorFit}]` : ''}`);
+    }
+    if (diff.removed.length > 0) {
+        console.log('\nRemoved:');
+        for (const c of diff.removed) console.log(`  ${c.key.padEnd(36)}${percent(c.rate).padStart(8)}  (n=${c.dataPoints})`);
+    }
+
+    if (diff.changed.length > 0) {
+        console.log('\nChanged (largest rate change first):');
+        console.log('  ' + 'Curve'.padEnd(36) + 'Old'.padStart(8) + 'New'.padStart(8) + 'Change'.padStart(10) + 'Samples'.padStart(16) + '  Spread / Elasticity');
+        console.log('  ' + '-'.repeat(100));
+        for (const c of diff.changed) {
+            const samples = `${c.dataPoints[0]} -> ${c.dataPoints[1]}`;
+            const spread = `${optional(c.rateSpread[0])} -> ${optional(c.rateSpread[1])}`;
+            const elasticity = `${optional(c.mileageElasticity[0])} -> ${optional(c.mileageElasticity[1])}`;
+            const flag = Boolean(c.poorFit[0]) === Boolean(c.poorFit[1]) ? ''
+                : c.poorFit[1] ? `  [now poor fit: ${c.poorFit[1]}]`
+                : '  [no longer a poor fit]';
+            console.log(
+                '  ' + c.key.padEnd(36) +
+                percent(c.rate[0]).padStart(8) +
+                percent(c.rate[1]).padStart(8) +
+                signed(c.rateChange).padStart(10) +
+                samples.padStart(16) +
+                `  ${spread} / ${elasticity}${flag}`
+            );
+        }
+    }
+
+    for (const [label, changes] of [['Special modifiers', diff.specialModifiers], ['Rule modifiers', diff.ruleModifiers]] as const) {
+        if (changes.length === 0) continue;
+        console.log(`\n${label}:`);
+        for (const m of changes) console.log(`  ${m.key.padEnd(36)}${optional(m.old).padStart(8)} -> ${optional(m.new)}`);
+    }
+}
+
+async function main() {
+    const { oldRef, newRef, jsonPath } = readArgs();
+    const oldCurves = oldRef ? loadCurves(oldRef) : activeCurves;
+    const newCurves = loadCurves(newRef);
+
+    const diff = diffCurves(oldCurves, newCurves);
+    printDiff(diff);
+
+    if (jsonPath) {
+        fs.writeFileSync(jsonPath, JSON.stringify(diff, null, 2) + '\n');
+        console.log(`\nWrote ${path.relative(process.cwd(), jsonPath)}`);
+    }
+}
+
+main().catch(console.error);
@@ -9,229 +9,412 @@
  * 2. make
  * 3. fuel
  * 4. global
+ *
+ * Mileage normalisation: high-mileage cars (typically diesels) sell for less at the same
+ * age, which made their age-only rates look steeper. Each curve fits a mileage elasticity
+ * (change in log price per 1,000 miles, within each model year), prices are adjusted to
+ * REFERENCE_ANNUAL_MILEAGE before the rate is calculated, and the elasticity is written
+ * alongside the rate for `calculateResidualFactor` to apply the car's own mileage.
+ *
+ * Age shape: each curve also gets `ageRates`, the year-on-year rate for each age between
+ * model years (on the same normalised prices). Ages with too few adverts either side borrow
+ * the shape of the next level (make|fuel -> make -> fuel -> global), scaled to the curve's
+ * own rate, and finally DEFAULT_AGE_SHAPE.
+ *
+ * Rate: a weighted regression of log price against age. Each age (model year) is summarised by
+ * the trimmed mean of its mileage-normalised log prices, so a few mispriced adverts can't drag
+ * it, and weighted by its number of adverts. `rate` is 1 - e^slope. The fit's R², the rate's
+ * standard error and the number of ages are stored as `fit`; a curve with an implausible rate,
+ * a low R² or a wide standard error is kept but flagged `poorFit`, and the app falls back to a
+ * broader curve.
+ *
+ * Spread: `rateSpread` is the standard deviation of the annualised rates implied by each age.
+ * Noisy curves disagree across ages, so the app shows a wider confidence band.
+ *
+ * Special variants (rules in `src/utils/specialVariants.ts`) are left out of the curves.
+ * Their modifiers are fitted per make (`specialModifiers`) and per rule (`ruleModifiers`).
+ *
+ * Input: the normalised adverts from `ingest_adverts.ts` (`src/data/adverts.jsonl`). Adverts from
+ * several snapshots are pooled by age, with model years aligned to the latest snapshot.
+ *
+ * Output: a new versioned dataset, `src/data/curves/<version>.json`, with its snapshot year and
+ * provenance. The version defaults to today's date (`--version <name>` to choose one); existing
+ * versions are never overwritten. Register it in `src/utils/curveDatasets.ts` to preview and
+ * diff it (`scripts/diff_curves.ts`) before making it the active version.
  */
 
 import fs from 'fs';
 import path from 'path';
-import { parse } from 'csv-parse';
 import { fileURLToPath } from 'url';
+import { DepreciationCurvesSchema, parseDataset } from '../src/utils/dataSchemas';
+import type { CurveData } from '../src/utils/depreciationCalculator';
+import { matchSpecialVariant } from '../src/utils/specialVariants';
+import { alignedModelYear, readAdverts, readAdvertsManifest } from './advert_dataset';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CSV_PATH = path.join(__dirname, '../src/data/all_car_adverts.csv');
-const OUTPUT_PATH = path.join(__dirname, '../src/data/depreciation_curves.json');
+const OUTPUT_DIR = path.join(__dirname, '../src/data/curves');
 
 const MIN_DATA_POINTS = 50; // Higher threshold for better reliability
 const MIN_MODIFIER_SAMPLES = 100; // Require more data to define a strong modifier
 
-const SPECIAL_VARIANT_KEYWORDS = [
-    'AMG', 'RS', 'M3', 'M4', 'M5', 'GT', 'COSWORTH', 'S3', 'S4', 'S5',
-    'MUSTANG', 'F150', 'ECONOLINE', 'M SPORT', 'R TYPE', 'TYPE R', 'GTI',
-    'CUPRA', 'ABARTH', 'VXR', 'ST', 'JOHN COOPER WORKS', 'JCW', 'QUADRIFOGLIO'
-];
-
-const normalize = (str: string) => str?.trim().toLowerCase() || '';
+const MANIFEST = readAdvertsManifest();
+const SNAPSHOT_YEAR = MANIFEST.snapshotYear; // Latest year the adverts were collected
+const REFERENCE_ANNUAL_MILEAGE = 8000; // Keep in step with DEFAULT_ANNUAL_MILEAGE in depreciationCalculator.ts
+const DEFAULT_MILEAGE_ELASTICITY = -0.006; // Keep in step with depreciationCalculator.ts
+const MAX_ELASTICITY = -0.05; // Steeper fits are noise (5% of value per 1,000 miles)
+
+const OLDEST_MODEL_YEAR = SNAPSHOT_YEAR - 5; // Adverts more than five model years old are excluded
+const MIN_AGE_SAMPLES = 20; // Adverts needed in each model year to trust a year-on-year rate
+const MAX_AGE_RATE = 0.4; // Year-on-year rates outside 0-40% are noise or model mix changes
+const TRIM_FRACTION = 0.1; // Share of each age's cheapest and dearest adverts left out of its centre
+
+// A fit is flagged as poor (and skipped by the app) outside these limits
+const MIN_FIT_AGES = 3; // Ages needed to fit a rate at all
+const MIN_RATE = 0.02;
+const MAX_RATE = 0.4;
+const MIN_R2 = 0.8;
+const MAX_RATE_STD_ERROR = 0.03;
+const DEFAULT_AGE_SHAPE = [1.5, 1.2, 1.0, 1.0, 0.7]; // Keep in step with depreciationCalculator.ts
 
 interface CarRecord {
     make: string;
     fuelType: string;
     year: number;
     price: number;
-    isSpecialVariant: boolean;
+    miles: number | null; // Odometer reading, null if missing or implausible
+    specialRule: string | null; // Matching special variant rule (see specialVariants.ts); null for standard cars
 }
 
-interface AggregatedData {
-    yearPrices: Map<number, { total: number; count: number }>;
-    totalCount: number;
+interface AgeCentre {
+    age: number;
+    logPrice: number; // Trimmed mean of the mileage-normalised log prices
+    count: number;
 }
 
-function checkIsSpecialVariant(make: string, model: string, variant: string, title: string): boolean {
-    const combined = `${make} ${model} ${variant} ${title}`.toUpperCase();
-    return SPECIAL_VARIANT_KEYWORDS.some(keyword => {
-        // Require word boundaries for short keywords like RS or ST to avoid false positives (e.g., 'CARS', 'ASTRA')
-        if (keyword.length <= 2) {
-            const regex = new RegExp(`\\b${keyword}\\b`);
-            return regex.test(combined);
-        }
-        return combined.includes(keyword);
-    });
+interface RateFit {
+    rate: number;
+    spread: number | null; // Null with fewer than two ages to compare
+    r2: number;
+    rateStdError: number;
+    ages: number;
+    poorFit: string | null; // Why the fit can't be trusted; null if it can
 }
 
 async function loadData(): Promise<CarRecord[]> {
     const records: CarRecord[] = [];
     let specialCount = 0;
 
-    const parser = fs
-        .createReadStream(CSV_PATH)
-        .pipe(parse({
-            columns: true,
-            skip_empty_lines: true,
-            trim: true
-        }));
-
-    for await (const record of parser) {
-        const make = normalize(record.make);
-        const fuel = normalize(record.feul_type);
-        const year = parseInt(record.year, 10);
-        const price = parseFloat(record.car_price);
-
-        if (!make || !fuel || isNaN(year) || isNaN(price)) continue;
+    for await (const advert of readAdverts()) {
+        const { make, fuel, price, miles } = advert;
+        const year = alignedModelYear(advert, SNAPSHOT_YEAR);
+
         if (price < 1000 || price > 300000) continue;
-        if (year < 2017 || year > 2022) continue;
+        if (year < OLDEST_MODEL_YEAR || year > SNAPSHOT_YEAR) continue;
 
-        const isSpecialVariant = checkIsSpecialVariant(record.make, record.model, record.variant, record.car_title);
-        if (isSpecialVariant) specialCount++;
+        const specialRule = matchSpecialVariant(advert)?.ruleId ?? null;
+        if (specialRule) specialCount++;
 
-        records.push({ make, fuelType: fuel, year, price, isSpecialVariant });
+        records.push({ make, fuelType: fuel, year, price, miles, specialRule });
     }
 
     console.log(`Identified ${specialCount} Special Variant records out of ${records.length} total.`);
     return records;
 }
 
-function aggregateByYear(records: CarRecord[], keyFn: (r: CarRecord) => string): Map<string, AggregatedData> {
-    const aggregated = new Map<string, AggregatedData>();
-
+function groupRecords(records: CarRecord[], keyFn: (r: CarRecord) => string): Map<string, CarRecord[]> {
+    const groups = new Map<string, CarRecord[]>();
     for (const r of records) {
         const key = keyFn(r);
+        if (!groups.has(key)) groups.set(key, []);
+        groups.get(key)!.push(r);
+    }
+    return groups;
+}
 
-        if (!aggregated.has(key)) {
-            aggregated.set(key, { yearPrices: new Map(), totalCount: 0 });
-        }
+/**
+ * Slope of log price against mileage (per 1,000 miles) within each model year, so age
+ * doesn't masquerade as mileage. Null when there are too few readings to trust.
+ */
+function fitMileageElasticity(records: CarRecord[]): number | null {
+    const byYear = new Map<number, { miles: number; logPrice: number }[]>();
+    for (const r of records) {
+        if (r.miles === null) continue;
+        if (!byYear.has(r.year)) byYear.set(r.year, []);
+        byYear.get(r.year)!.push({ miles: r.miles / 1000, logPrice: Math.log(r.price) });
+    }
 
-        const data = aggregated.get(key)!;
-        const yearData = data.yearPrices.get(r.year) || { total: 0, count: 0 };
-        yearData.total += r.price;
-        yearData.count++;
-        data.yearPrices.set(r.year, yearData);
-        data.totalCount++;
+    let covariance = 0;
+    let variance = 0;
+    let samples = 0;
+
+    for (const points of byYear.values()) {
+        if (points.length < 2) continue;
+        const meanMiles = points.reduce((sum, p) => sum + p.miles, 0) / points.length;
+        const meanLogPrice = points.reduce((sum, p) => sum + p.logPrice, 0) / points.length;
+        for (const p of points) {
+            covariance += (p.miles - meanMiles) * (p.logPrice - meanLogPrice);
+            variance += (p.miles - meanMiles) ** 2;
+        }
+        samples += points.length;
     }
 
-    return aggregated;
+    if (samples < MIN_DATA_POINTS || variance === 0) return null;
+
+    // Mileage can't raise value; clamp implausibly steep fits
+    return Math.max(MAX_ELASTICITY, Math.min(0, covariance / variance));
+}
+
+/**
+ * Adjust each price to the reference mileage for its age
+ */
+function normaliseMileage(records: CarRecord[], elasticity: number): CarRecord[] {
+    return records.map(r => {
+        if (r.miles === null) return r;
+        const age = SNAPSHOT_YEAR - r.year;
+        const excessMiles = (r.miles - REFERENCE_ANNUAL_MILEAGE * age) / 1000;
+        return { ...r, price: r.price * Math.exp(-elasticity * excessMiles) };
+    });
 }
 
-function calculateDepreciationRate(data: AggregatedData): number | null {
-    const yearAvgs: [number, number][] = [];
+function trimmedMean(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const trim = Math.floor(sorted.length * TRIM_FRACTION);
+    const kept = sorted.slice(trim, sorted.length - trim);
+    return kept.reduce((sum, v) => sum + v, 0) / kept.length;
+}
 
-    for (const [year, { total, count }] of data.yearPrices) {
-        if (count >= 20) {
-            yearAvgs.push([year, total / count]);
+/**
+ * Robust centre of each age's mileage-normalised log prices, for ages with enough adverts
+ */
+function calculateAgeCentres(records: CarRecord[], elasticity: number): Map<number, AgeCentre> {
+    const logPricesByAge = new Map<number, number[]>();
+    for (const r of normaliseMileage(records, elasticity)) {
+        const age = SNAPSHOT_YEAR - r.year;
+        if (!logPricesByAge.has(age)) logPricesByAge.set(age, []);
+        logPricesByAge.get(age)!.push(Math.log(r.price));
+    }
+
+    const centres = new Map<number, AgeCentre>();
+    for (const [age, logPrices] of logPricesByAge) {
+        if (logPrices.length >= MIN_AGE_SAMPLES) {
+            centres.set(age, { age, logPrice: trimmedMean(logPrices), count: logPrices.length });
         }
     }
+    return centres;
+}
 
-    if (yearAvgs.length < 3) return null;
+/**
+ * Depreciation rate from a regression of log price on age (weighted by adverts per age),
+ * after adjusting each price to the reference mileage for its age. Null with too few ages.
+ */
+function fitDepreciationRate(records: CarRecord[], elasticity: number): RateFit | null {
+    const points = [...calculateAgeCentres(records, elasticity).values()];
+    if (points.length < MIN_FIT_AGES) return null;
+
+    const totalWeight = points.reduce((sum, p) => sum + p.count, 0);
+    const meanAge = points.reduce((sum, p) => sum + p.count * p.age, 0) / totalWeight;
+    const meanLogPrice = points.reduce((sum, p) => sum + p.count * p.logPrice, 0) / totalWeight;
+
+    let sxx = 0;
+    let sxy = 0;
+    let totalSquares = 0;
+    for (const p of points) {
+        sxx += p.count * (p.age - meanAge) ** 2;
+        sxy += p.count * (p.age - meanAge) * (p.logPrice - meanLogPrice);
+        totalSquares += p.count * (p.logPrice - meanLogPrice) ** 2;
+    }
+    if (sxx === 0) return null;
+
+    const slope = sxy / sxx;
+    const intercept = meanLogPrice - slope * meanAge;
+    const residualSquares = points.reduce((sum, p) => sum + p.count * (p.logPrice - intercept - slope * p.age) ** 2, 0);
+
+    const rate = 1 - Math.exp(slope);
+    const r2 = totalSquares > 0 ? Math.max(0, 1 - residualSquares / totalSquares) : 0;
+    // Standard error of the slope (ages as observations), carried through to the rate
+    const rateStdError = Math.exp(slope) * Math.sqrt(residualSquares / (points.length - 2) / sxx);
+
+    // Each age's own annualised rate from the fitted new price
+    const ageRates = points
+        .filter(p => p.age > 0)
+        .map(p => 1 - Math.exp((p.logPrice - intercept) / p.age));
+    const meanAgeRate = ageRates.reduce((sum, r) => sum + r, 0) / ageRates.length;
+    const spread = ageRates.length >= 2
+        ? Math.sqrt(ageRates.reduce((sum, r) => sum + (r - meanAgeRate) ** 2, 0) / (ageRates.length - 1))
+        : null;
+
+    const percent = (n: number) => `${(n * 100).toFixed(1)}%`;
+    const poorFit =
+        rate < MIN_RATE || rate > MAX_RATE ? `rate ${percent(rate)} outside ${percent(MIN_RATE)}-${percent(MAX_RATE)}`
+        : r2 < MIN_R2 ? `R² ${r2.toFixed(2)} below ${MIN_R2}`
+        : rateStdError > MAX_RATE_STD_ERROR ? `standard error ${percent(rateStdError)} above ${percent(MAX_RATE_STD_ERROR)}`
+        : null;
+
+    return { rate, spread, r2, rateStdError, ages: points.length, poorFit };
+}
 
-    yearAvgs.sort((a, b) => a[0] - b[0]);
+/**
+ * Year-on-year rate for each age ([0] = new to 1 year old), from the robust centres of
+ * adjacent model years. Null where either year is thin or the rate implausible.
+ */
+function calculateAgeRates(records: CarRecord[], elasticity: number): (number | null)[] {
+    const centres = calculateAgeCentres(records, elasticity);
+
+    return Array.from({ length: SNAPSHOT_YEAR - OLDEST_MODEL_YEAR }, (_, age) => {
+        const younger = centres.get(age);
+        const older = centres.get(age + 1);
+        if (!younger || !older) return null;
+        const rate = 1 - Math.exp(older.logPrice - younger.logPrice);
+        return rate >= 0 && rate < MAX_AGE_RATE ? rate : null;
+    });
+}
 
-    const newestYear = yearAvgs[yearAvgs.length - 1][0];
-    const newestPrice = yearAvgs[yearAvgs.length - 1][1];
+/**
+ * Curves whose age shape a curve falls back on for thin ages, most specific first
+ */
+function ageFallbackKeys(key: string): string[] {
+    if (key === 'global') return ['global'];
+    return key.includes('|') ? [key, ...key.split('|'), 'global'] : [key, 'global'];
+}
 
-    let totalRate = 0;
-    let rateCount = 0;
+/**
+ * A curve's stored rate, spread, fit statistics and poor-fit flag. Null for an appreciating
+ * fit, which the rate can't represent.
+ */
+function toCurve(fit: RateFit, dataPoints: number, elasticity: number | null): CurveData | null {
+    const rate = Math.round(fit.rate * 1000) / 1000;
+    if (rate <= 0) return null;
+
+    return {
+        rate,
+        dataPoints,
+        ...(elasticity !== null && { mileageElasticity: Math.round(elasticity * 10000) / 10000 }),
+        ...(fit.spread !== null && { rateSpread: Math.round(fit.spread * 1000) / 1000 }),
+        fit: {
+            r2: Math.round(fit.r2 * 1000) / 1000,
+            rateStdError: Math.round(fit.rateStdError * 10000) / 10000,
+            ages: fit.ages
+        },
+        ...(fit.poorFit !== null && { poorFit: fit.poorFit })
+    };
+}
 
-    for (const [year, avgPrice] of yearAvgs) {
-        const age = newestYear - year;
-        if (age > 0 && age <= 5) {
-            const retention = avgPrice / newestPrice;
-            // Sanity check: reject if retention suggests >40% or <0% annual depreciation
-            if (retention > 0.2 && retention < 1.1) {
-                const annualRate = 1 - Math.pow(retention, 1 / age);
-                if (annualRate > 0.02 && annualRate < 0.40) {
-                    totalRate += annualRate;
-                    rateCount++;
-                }
-            }
-        }
-    }
+function readVersionArg(): string | null {
+    const index = process.argv.indexOf('--version');
+    return index >= 0 ? process.argv[index + 1] ?? null : null;
+}
 
-    return rateCount > 0 ? totalRate / rateCount : null;
+// Add a suffix rather than overwrite a version that's already been written (and maybe shipped)
+function nextVersion(base: string): string {
+    let version = base;
+    for (let n = 2; fs.existsSync(path.join(OUTPUT_DIR, `${version}.json`)); n++) {
+        version = `${base}-${n}`;
+    }
+    return version;
 }
 
 async function main() {
-    console.log('Loading data from CSV...');
+    console.log('Loading adverts...');
     const records = await loadData();
     console.log(`Loaded ${records.length} valid records`);
 
     // Split into standard and special datasets
-    const standardRecords = records.filter(r => !r.isSpecialVariant);
-    const specialRecords = records.filter(r => r.isSpecialVariant);
+    const standardRecords = records.filter(r => !r.specialRule);
+    const specialRecords = records.filter(r => r.specialRule);
 
     console.log(`\nBase curves will use ${standardRecords.length} Standard records.`);
 
-    const curves: { [key: string]: { rate: number; dataPoints: number } } = {};
+    const curves: { [key: string]: CurveData } = {};
+    const ownAgeRates = new Map<string, (number | null)[]>(); // Before fallback
     const specialModifiers: { [make: string]: number, global: number } = { global: 1.0 }; // Default multiplier is 1 (no change)
+    const ruleModifiers: { [ruleId: string]: number } = {};
+
+    // Global mileage elasticity: the fallback for curves without enough odometer readings
+    const globalElasticity = fitMileageElasticity(standardRecords) ?? DEFAULT_MILEAGE_ELASTICITY;
+    console.log(`Global mileage elasticity: ${(globalElasticity * 100).toFixed(2)}% per 1,000 miles`);
+
+    // A curve carries its own elasticity only when it could be fitted
+    const buildCurve = (key: string, group: CarRecord[]) => {
+        const elasticity = fitMileageElasticity(group);
+        const fit = fitDepreciationRate(group, elasticity ?? globalElasticity);
+        const curve = fit ? toCurve(fit, group.length, elasticity) : null;
+        if (curve === null) return null;
+        ownAgeRates.set(key, calculateAgeRates(group, elasticity ?? globalElasticity));
+        if (curve.poorFit) console.log(`  ${key}: poor fit (${curve.poorFit}); the app will use a broader curve`);
+        return curve;
+    };
 
-    // Level 1: make|fuel (Standard Only)
-    console.log('Calculating STANDARD make|fuel curves...');
-    const level1 = aggregateByYear(standardRecords, r => `${r.make}|${r.fuelType}`);
-    for (const [key, data] of level1) {
-        if (data.totalCount >= MIN_DATA_POINTS) {
-            const rate = calculateDepreciationRate(data);
-            if (rate !== null) {
-                curves[key] = { rate: Math.round(rate * 1000) / 1000, dataPoints: data.totalCount };
-            }
-        }
-    }
-    console.log(`  Generated ${Object.keys(curves).length} curves`);
-
-    // Level 2: make only (Standard Only)
-    console.log('Calculating STANDARD make curves...');
-    const level2 = aggregateByYear(standardRecords, r => r.make);
-    let level2Count = 0;
-    for (const [key, data] of level2) {
-        if (data.totalCount >= MIN_DATA_POINTS) {
-            const rate = calculateDepreciationRate(data);
-            if (rate !== null) {
-                curves[key] = { rate: Math.round(rate * 1000) / 1000, dataPoints: data.totalCount };
-                level2Count++;
-            }
-        }
-    }
-    console.log(`  Generated ${level2Count} curves`);
-
-    // Level 3: fuel type only (Standard Only)
-    console.log('Calculating STANDARD fuel type curves...');
-    const level3 = aggregateByYear(standardRecords, r => r.fuelType);
-    let level3Count = 0;
-    for (const [key, data] of level3) {
-        if (data.totalCount >= MIN_DATA_POINTS) {
-            const rate = calculateDepreciationRate(data);
-            if (rate !== null) {
-                curves[key] = { rate: Math.round(rate * 1000) / 1000, dataPoints: data.totalCount };
-                level3Count++;
+    // Levels 1-3: make|fuel, make, fuel (Standard Only)
+    const levels: { name: string; keyFn: (r: CarRecord) => string }[] = [
+        { name: 'make|fuel', keyFn: r => `${r.make}|${r.fuelType}` },
+        { name: 'make', keyFn: r => r.make },
+        { name: 'fuel type', keyFn: r => r.fuelType }
+    ];
+
+    for (const { name, keyFn } of levels) {
+        console.log(`Calculating STANDARD ${name} curves...`);
+        let levelCount = 0;
+        for (const [key, group] of groupRecords(standardRecords, keyFn)) {
+            if (group.length >= MIN_DATA_POINTS) {
+                const curve = buildCurve(key, group);
+                if (curve) {
+                    curves[key] = curve;
+                    levelCount++;
+                }
             }
         }
+        console.log(`  Generated ${levelCount} curves`);
     }
-    console.log(`  Generated ${level3Count} curves`);
 
     // Level 4: global (Standard Only)
     console.log('Calculating STANDARD global curve...');
-    const globalData: AggregatedData = { yearPrices: new Map(), totalCount: 0 };
-    for (const r of standardRecords) {
-        const yearData = globalData.yearPrices.get(r.year) || { total: 0, count: 0 };
-        yearData.total += r.price;
-        yearData.count++;
-        globalData.yearPrices.set(r.year, yearData);
-        globalData.totalCount++;
+    // Used even if its fit is poor: there is nothing broader to fall back on
+    const globalFit = fitDepreciationRate(standardRecords, globalElasticity);
+    const globalCurve = globalFit ? toCurve(globalFit, standardRecords.length, globalElasticity) : null;
+    if (globalCurve === null) {
+        // Every other curve falls back to it, and the schema requires one
+        throw new Error(`The global curve could not be fitted from ${standardRecords.length} standard records.`);
     }
-    const globalRate = calculateDepreciationRate(globalData);
-    if (globalRate !== null) {
-        curves['global'] = { rate: Math.round(globalRate * 1000) / 1000, dataPoints: globalData.totalCount };
+    const globalRate = globalCurve.rate;
+    curves['global'] = globalCurve;
+    ownAgeRates.set('global', calculateAgeRates(standardRecords, globalElasticity));
+    if (globalCurve.poorFit) console.log(`  Warning: the global curve's fit is poor (${globalCurve.poorFit})`);
+    console.log(`  Global rate: ${(globalRate * 100).toFixed(1)}%/year`);
+
+    // Age shapes: thin ages borrow the next level's shape relative to its rate
+    console.log('Calculating age shapes...');
+    let borrowedAges = 0;
+    let totalAges = 0;
+    for (const [key, curve] of Object.entries(curves)) {
+        const own = ownAgeRates.get(key) ?? [];
+        curve.ageRates = Array.from({ length: SNAPSHOT_YEAR - OLDEST_MODEL_YEAR }, (_, age) => {
+            totalAges++;
+            if (own[age] != null) return Math.round(own[age]! * 1000) / 1000;
+            borrowedAges++;
+            const source = ageFallbackKeys(key).find(k => curves[k] && !curves[k].poorFit && ownAgeRates.get(k)?.[age] != null);
+            const multiplier = source
+                ? ownAgeRates.get(source)![age]! / curves[source].rate
+                : DEFAULT_AGE_SHAPE[Math.min(age, DEFAULT_AGE_SHAPE.length - 1)];
+            return Math.round(Math.min(MAX_AGE_RATE, curve.rate * multiplier) * 1000) / 1000;
+        });
     }
-    console.log(`  Global rate: ${(globalRate! * 100).toFixed(1)}%/year`);
+    console.log(`  ${borrowedAges} of ${totalAges} age buckets borrowed from a broader curve`);
 
     // Calculate Special Variant Modifiers
     console.log('\nCalculating Special Variant Modifiers...');
 
     // Group special records by make
-    const specialByMake = aggregateByYear(specialRecords, r => r.make);
+    const specialByMake = groupRecords(specialRecords, r => r.make);
 
     let globalSpecialRate = 0;
     let globalSpecialCount = 0;
 
-    for (const [make, specialData] of specialByMake) {
-        if (specialData.totalCount >= MIN_MODIFIER_SAMPLES) {
-            const specialRate = calculateDepreciationRate(specialData);
-            const standardRate = curves[make]?.rate; // Compare against the smoothed standard make curve
+    for (const [make, specialGroup] of specialByMake) {
+        if (specialGroup.length >= MIN_MODIFIER_SAMPLES) {
+            // Normalised with the standard make curve's elasticity so the modifier compares like with like
+            const specialFit = fitDepreciationRate(specialGroup, curves[make]?.mileageElasticity ?? globalElasticity);
+            const specialRate = specialFit && !specialFit.poorFit ? specialFit.rate : null;
+            const standardRate = curves[make] && !curves[make].poorFit ? curves[make].rate : null; // Compare against the smoothed standard make curve
 
             if (specialRate !== null && standardRate) {
                 // E.g., special rate = 0.15, standard = 0.20 -> modifier = 0.75
@@ -256,19 +439,56 @@ async function main() {
         console.log(`  Fallback Global Special Modifier: ${specialModifiers['global']}x`);
     }
 
+    // Per-rule modifiers: a rule's listings against the standard curves of the same makes
+    console.log('\nCalculating Special Variant Rule Modifiers...');
+    for (const [ruleId, ruleGroup] of groupRecords(specialRecords, r => r.specialRule!)) {
+        if (ruleGroup.length < MIN_MODIFIER_SAMPLES) continue;
+
+        const specialFit = fitDepreciationRate(ruleGroup, globalElasticity);
+        const specialRate = specialFit && !specialFit.poorFit ? specialFit.rate : null;
+        const makeRate = (make: string) => (curves[make] && !curves[make].poorFit ? curves[make].rate : globalRate);
+        const standardRate = ruleGroup.reduce((sum, r) => sum + makeRate(r.make), 0) / ruleGroup.length;
+
+        if (specialRate !== null && standardRate) {
+            const modifier = specialRate / standardRate;
+            if (modifier >= 0.5 && modifier <= 1.5) {
+                ruleModifiers[ruleId] = Math.round(modifier * 100) / 100;
+                console.log(`  ${ruleId}: Special Rate ${(specialRate * 100).toFixed(1)}% vs Standard ${(standardRate * 100).toFixed(1)}% (Modifier: ${ruleModifiers[ruleId]}x)`);
+            }
+        }
+    }
+
 
     // Write output
+    const generatedAt = new Date().toISOString().split('T')[0];
+    const version = nextVersion(readVersionArg() ?? generatedAt);
     const output = {
+        version,
+        snapshotYear: SNAPSHOT_YEAR,
+        provenance: {
+            source: MANIFEST.sources.map(s => path.basename(s.file)).join(', '),
+            description: MANIFEST.sources.map(s => `${s.description}, collected ${s.snapshotDate}`).join('; '),
+            records: records.length,
+            script: 'scripts/generate_curves.ts'
+        },
         curves,
         specialModifiers,
-        generatedAt: new Date().toISOString().split('T')[0],
+        ruleModifiers,
+        generatedAt,
         minDataPoints: MIN_DATA_POINTS,
         totalCurves: Object.keys(curves).length,
-        note: 'Standard curves exclude Special Variants (RS, AMG, etc) to prevent erratic bumps on older models. Special Variants apply the corresponding multiplier to the standard base rate.'
+        referenceAnnualMileage: REFERENCE_ANNUAL_MILEAGE,
+        mileageElasticity: Math.round(globalElasticity * 10000) / 10000,
+        note: `Standard curves exclude Special Variants (RS, AMG, etc) to prevent erratic bumps on older models. Special Variants apply the corresponding multiplier to the standard base rate. Rates are normalised to ${REFERENCE_ANNUAL_MILEAGE.toLocaleString('en-GB')} miles/year. ageRates[n] is the rate from age n to n+1 (the last applies to older cars); thin ages borrow the shape of the next level down. Rates are fitted by weighted log-price regression on age; curves flagged poorFit are skipped in favour of a broader level.`
     };
 
-    fs.writeFileSync(OUTPUT_PATH, JSON.stringify(output, null, 2));
-    console.log(`\nWrote ${Object.keys(curves).length} curves and ${Object.keys(specialModifiers).length} modifiers to ${OUTPUT_PATH}`);
+    // Same schema the app validates on load, so a bad curve never reaches the repo
+    parseDataset(DepreciationCurvesSchema, output, `curves/${version}.json`);
+
+    const outputPath = path.join(OUTPUT_DIR, `${version}.json`);
+    fs.writeFileSync(outputPath, JSON.stringify(output, null, 2));
+    console.log(`\nWrote ${Object.keys(curves).length} curves and ${Object.keys(specialModifiers).length} modifiers to ${outputPath}`);
+    console.log(`Next: register "${version}" in src/utils/curveDatasets.ts, then review it with scripts/diff_curves.ts and ?dataset=${version}.`);
 }
 
 main().catch(console.error);
@@ -0,0 +1,266 @@
+/**
+ * Ingest raw advert exports into the normalised advert dataset
+ *
+ * Each export is described in `advert_sources.json`: its file, when it was collected
+ * (`snapshotDate`) and which of its columns hold the make, model, fuel, year, price and
+ * (optionally) variant, title, mileage and advert id. Every row is:
+ * - mapped to the same fields and normalised: make and fuel aliases resolved to the keys the
+ *   curves use (e.g. "Mercedes" -> "mercedes-benz", "Hybrid – Petrol/Electric Plug-in" ->
+ *   "petrol plug-in hybrid"), prices like "£12,495" parsed, implausible mileages dropped;
+ * - tagged with its source and snapshot date;
+ * - de-duplicated: a relisted advert (same make, model, variant, year, fuel and mileage of
+ *   1,000+ miles, or the same advert id within a source) is kept once, from the latest snapshot.
+ *
+ * Usage:
+ *   npx tsx scripts/ingest_adverts.ts [--sources path/to/sources.json]
+ *
+ * Writes `src/data/adverts.jsonl` and `src/data/adverts_manifest.json` (see `advert_dataset.ts`),
+ * which `process_market_data.ts`, `generate_curves.ts` and the analysis scripts read.
+ * Sources whose file is missing are skipped with a warning.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { once } from 'events';
+import { parse } from 'csv-parse';
+import { fileURLToPath } from 'url';
+import { z } from 'astro/zod';
+import { parseDataset } from '../src/utils/dataSchemas';
+import {
+    ADVERTS_MANIFEST_PATH,
+    ADVERTS_PATH,
+    snapshotYearOf,
+    type Advert,
+    type AdvertsManifest,
+    type SourceSummary
+} from './advert_dataset';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.join(__dirname, '..');
+const DEFAULT_SOURCES_PATH = path.join(__dirname, 'advert_sources.json');
+
+const MAX_MILES = 300000; // Higher readings are typos
+const MIN_FINGERPRINT_MILES = 1000; // Delivery mileages are shared by many new cars, so don't identify one
+
+// Spellings used by advert exports -> make keys in the curves and market stats
+const MAKE_ALIASES: Record<string, string> = {
+    'mercedes': 'mercedes-benz',
+    'mercedes benz': 'mercedes-benz',
+    'vw': 'volkswagen',
+    'land-rover': 'land rover',
+    'landrover': 'land rover',
+    'alfa-romeo': 'alfa romeo',
+    'citroën': 'citroen',
+    'škoda': 'skoda',
+    'ds': 'ds automobiles',
+    'ssangyong motor': 'ssangyong'
+};
+
+// Spellings used by advert exports -> fuel keys in the curves and market stats
+const FUEL_ALIASES: Record<string, string> = {
+    'hybrid - petrol/electric': 'petrol hybrid',
+    'hybrid - petrol/electric plug-in': 'petrol plug-in hybrid',
+    'hybrid - diesel/electric': 'diesel hybrid',
+    'hybrid - diesel/electric plug-in': 'diesel plug-in hybrid',
+    'petrol/electric': 'petrol hybrid',
+    'diesel/electric': 'diesel hybrid',
+    'plug-in hybrid': 'petrol plug-in hybrid',
+    'electricity': 'electric',
+    'bi-fuel': 'bi fuel',
+    'petrol/lpg': 'bi fuel'
+};
+
+const ColumnName = z.string().min(1);
+
+const AdvertSourcesSchema = z.object({
+    sources: z.array(z.object({
+        id: z.string().regex(/^[a-z0-9-]+$/, 'Use lower case letters, digits and hyphens'),
+        file: z.string().min(1),                 // Relative to the repository root
+        description: z.string().min(1),
+        snapshotDate: z.string().regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, 'Use YYYY, YYYY-MM or YYYY-MM-DD'),
+        delimiter: z.string().length(1).optional(),
+        columns: z.object({
+            make: ColumnName,
+            model: ColumnName,
+            fuel: ColumnName,
+            year: ColumnName,
+            price: ColumnName,
+            variant: ColumnName.optional(),
+            title: ColumnName.optional(),
+            miles: ColumnName.optional(),
+            id: ColumnName.optional()  // Advert id, to catch relists without a mileage
+        })
+    })).min(1)
+}).refine(
+    config => new Set(config.sources.map(s => s.id)).size === config.sources.length,
+    'Source ids must be unique'
+);
+
+type AdvertSource = z.infer<typeof AdvertSourcesSchema>['sources'][number];
+
+const clean = (value: unknown) => (typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : '');
+
+function normaliseMake(value: string): string {
+    const make = clean(value).toLowerCase();
+    return MAKE_ALIASES[make] ?? make;
+}
+
+function normaliseFuel(value: string): string {
+    const fuel = clean(value).toLowerCase().replace(/\s*[–—]\s*/g, ' - ');
+    return FUEL_ALIASES[fuel] ?? fuel;
+}
+
+// "£12,495", "12495.00" -> 12495; NaN for "POA" or blanks
+function parsePrice(value: string): number {
+    const digits = clean(value).replace(/[^0-9.]/g, '');
+    return digits ? parseFloat(digits) : NaN;
+}
+
+// "45,000 miles" -> 45000; null when missing or implausible
+function parseMiles(value: string): number | null {
+    const digits = clean(value).replace(/[^0-9]/g, '');
+    if (!digits) return null;
+    const miles = parseInt(digits, 10);
+    return miles <= MAX_MILES ? miles : null;
+}
+
+function readSourcesArg(): string {
+    const args = process.argv.slice(2);
+    const index = args.indexOf('--sources');
+    return index >= 0 && args[index + 1] ? path.resolve(args[index + 1]) : DEFAULT_SOURCES_PATH;
+}
+
+/**
+ * Map and normalise one export row; null if it lacks a usable make, model, fuel, year or price
+ */
+function toAdvert(record: Record<string, string>, source: AdvertSource): Advert | null {
+    const { columns } = source;
+    const make = normaliseMake(record[columns.make]);
+    const model = clean(record[columns.model]).toLowerCase();
+    const fuel = normaliseFuel(record[columns.fuel]);
+    const year = parseInt(clean(record[columns.year]), 10);
+    const price = parsePrice(record[columns.price]);
+
+    if (!make || !model || !fuel || isNaN(year) || isNaN(price) || price <= 0) return null;
+
+    // Some exports truncate the year (e.g. "32")
+    if (year < 1900 || year > snapshotYearOf(source) + 1) return null;
+
+    return {
+        source: source.id,
+        snapshotDate: source.snapshotDate,
+        make,
+        model,
+        variant: columns.variant ? clean(record[columns.variant]) : '',
+        title: columns.title ? clean(record[columns.title]) : '',
+        fuel,
+        year,
+        price,
+        miles: columns.miles ? parseMiles(record[columns.miles]) : null
+    };
+}
+
+/**
+ * Identity of a listing across relists: the car itself where the mileage pins it down,
+ * else the source's advert id. Null when neither is known (kept as is).
+ */
+function duplicateKey(advert: Advert, advertId: string): string | null {
+    if (advert.miles !== null && advert.miles >= MIN_FINGERPRINT_MILES) {
+        return [advert.make, advert.model, advert.variant.toLowerCase(), advert.year, advert.fuel, advert.miles].join('|');
+    }
+    return advertId ? `${advert.source}#${advertId}` : null;
+}
+
+async function writeLines(filePath: string, adverts: Iterable<Advert>) {
+    const out = fs.createWriteStream(filePath);
+    for (const advert of adverts) {
+        if (!out.write(JSON.stringify(advert) + '\n')) await once(out, 'drain');
+    }
+    out.end();
+    await once(out, 'finish');
+}
+
+async function main() {
+    const sourcesPath = readSourcesArg();
+    const config = parseDataset(AdvertSourcesSchema, JSON.parse(fs.readFileSync(sourcesPath, 'utf-8')), path.basename(sourcesPath));
+
+    const adverts: Advert[] = [];
+    const indexByKey = new Map<string, number>();
+    const summaries: SourceSummary[] = [];
+
+    for (const source of config.sources) {
+        const filePath = path.resolve(ROOT_DIR, source.file);
+        if (!fs.existsSync(filePath)) {
+            console.warn(`Skipping ${source.id}: ${source.file} not found.`);
+            continue;
+        }
+
+        console.log(`Reading ${source.id} (${source.file}, collected ${source.snapshotDate})...`);
+        const summary: SourceSummary = {
+            id: source.id,
+            file: source.file,
+            description: source.description,
+            snapshotDate: source.snapshotDate,
+            rows: 0,
+            rejected: 0,
+            duplicates: 0,
+            kept: 0
+        };
+        summaries.push(summary);
+
+        const parser = fs
+            .createReadStream(filePath)
+            .pipe(parse({
+                columns: true,
+                delimiter: source.delimiter ?? ',',
+                skip_empty_lines: true,
+                trim: true,
+                relax_column_count: true
+            }));
+
+        for await (const record of parser) {
+            summary.rows++;
+            const advert = toAdvert(record, source);
+            if (!advert) {
+                summary.rejected++;
+                continue;
+            }
+
+            const key = duplicateKey(advert, source.columns.id ? clean(record[source.columns.id]) : '');
+            const existingIndex = key ? indexByKey.get(key) : undefined;
+            if (existingIndex === undefined) {
+                if (key) indexByKey.set(key, adverts.length);
+                adverts.push(advert);
+                continue;
+            }
+
+            // Keep the copy from the latest snapshot (its price is the most recent ask)
+            const existing = adverts[existingIndex];
+            const dropped = advert.snapshotDate > existing.snapshotDate ? existing : advert;
+            if (dropped === existing) adverts[existingIndex] = advert;
+            summaries.find(s => s.id === dropped.source)!.duplicates++;
+        }
+    }
+
+    if (summaries.length === 0) {
+        throw new Error(`None of the sources in ${path.basename(sourcesPath)} were found.`);
+    }
+
+    for (const summary of summaries) {
+        summary.kept = summary.rows - summary.rejected - summary.duplicates;
+        console.log(`  ${summary.id}: ${summary.rows} rows, ${summary.rejected} rejected, ${summary.duplicates} duplicates, ${summary.kept} kept`);
+    }
+
+    const manifest: AdvertsManifest = {
+        generatedAt: new Date().toISOString().split('T')[0],
+        snapshotYear: Math.max(...summaries.map(s => snapshotYearOf(s))),
+        records: adverts.length,
+        sources: summaries
+    };
+
+    await writeLines(ADVERTS_PATH, adverts);
+    fs.writeFileSync(ADVERTS_MANIFEST_PATH, JSON.stringify(manifest, null, 2) + '\n');
+    console.log(`\nWrote ${adverts.length} adverts to ${path.relative(process.cwd(), ADVERTS_PATH)}`);
+}
+
+main().catch(console.error);
@@ -1,7 +1,9 @@
 import fs from 'fs';
 import path from 'path';
-import { parse } from 'csv-parse';
 import { fileURLToPath } from 'url';
+import { MarketStatsSchema, parseDataset } from '../src/utils/dataSchemas';
+import { matchSpecialVariant } from '../src/utils/specialVariants';
+import { alignedModelYear, readAdverts, readAdvertsManifest } from './advert_dataset';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -22,59 +24,25 @@ interface MarketData {
     };
 }
 
-const INPUT_PATH = path.join(__dirname, '../src/data/all_car_adverts.csv');
 const OUTPUT_PATH = path.join(__dirname, '../src/data/market_stats.json');
 
-// Normalization helpers
-const normalize = (str: string) => str?.trim().toLowerCase() || '';
-
-const SPECIAL_VARIANT_KEYWORDS = [
-    'AMG', 'RS', 'M3', 'M4', 'M5', 'GT', 'COSWORTH', 'S3', 'S4', 'S5',
-    'MUSTANG', 'F150', 'ECONOLINE', 'M SPORT', 'R TYPE', 'TYPE R', 'GTI',
-    'CUPRA', 'ABARTH', 'VXR', 'ST', 'JOHN COOPER WORKS', 'JCW', 'QUADRIFOGLIO'
-];
-
-function checkIsSpecialVariant(make: string, model: string, variant: string, title: string): boolean {
-    const combined = `${make} ${model} ${variant} ${title}`.toUpperCase();
-    return SPECIAL_VARIANT_KEYWORDS.some(keyword => {
-        if (keyword.length <= 2) {
-            const regex = new RegExp(`\\b${keyword}\\b`);
-            return regex.test(combined);
-        }
-        return combined.includes(keyword);
-    });
-}
-
-// typo in CSV header: 'feul_type'
+// Reads the normalised adverts (run `ingest_adverts.ts` first). Model years are aligned to the
+// latest snapshot, which should match the active curves' `snapshotYear` (MARKET_SNAPSHOT_YEAR).
 const processData = async () => {
     console.log('Starting data processing...');
 
+    const { snapshotYear } = readAdvertsManifest();
     const stats: MarketData = {};
     let processedCount = 0;
     let excludedSpecialCount = 0;
 
-    const parser = fs
-        .createReadStream(INPUT_PATH)
-        .pipe(parse({
-            columns: true,
-            skip_empty_lines: true,
-            trim: true
-        }));
-
-    for await (const record of parser) {
-        const make = normalize(record.make);
-        const model = normalize(record.model);
-        const fuel = normalize(record.feul_type); // Note the typo in CSV header
-        const year = parseInt(record.year, 10);
-        const price = parseFloat(record.car_price);
-
-        if (!make || !model || !fuel || isNaN(year) || isNaN(price)) {
-            continue;
-        }
+    for await (const advert of readAdverts()) {
+        const { make, model, fuel, price } = advert;
+        const year = alignedModelYear(advert, snapshotYear);
 
         // Exclude Special Variants to align historical market dots with the standard depreciation math
-        const isSpecialVariant = checkIsSpecialVariant(record.make, record.model, record.variant, record.car_title);
-        if (isSpecialVariant) {
+        const specialVariant = matchSpecialVariant(advert);
+        if (specialVariant) {
             excludedSpecialCount++;
             continue;
         }
@@ -122,7 +90,10 @@ const processData = async () => {
         }
     }
 
-    console.log(`Writing output to ${OUTPUT_PATH}...`);
+    // Same schema the app validates on load, so a bad record never reaches the repo
+    parseDataset(MarketStatsSchema, stats, 'market_stats.json');
+
+    console.log(`Writing output to ${OUTPUT_PATH} (model years as of ${snapshotYear})...`);
     fs.writeFileSync(OUTPUT_PATH, JSON.stringify(stats, null, 0)); // Compact JSON
     console.log('Done!');
 };
@@ -0,0 +1,64 @@
+/**
+ * Validate the bundled datasets against the schemas the app checks on load
+ * (`src/utils/dataSchemas.ts`).
+ *
+ * Run after editing data by hand or with `update_car_prices.py`:
+ *   npx tsx scripts/validate_data.ts
+ *
+ * Lists every problem by file and key/record, and exits non-zero if any file is invalid.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { z } from 'astro/zod';
+import {
+    BIKRulesSchema,
+    CarListSchema,
+    DepreciationCurvesSchema,
+    MarketStatsSchema,
+    VEDRulesSchema,
+    parseDataset
+} from '../src/utils/dataSchemas';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DATA_DIR = path.join(__dirname, '../src/data');
+
+// Every versioned curves dataset, registered or not
+const CURVE_FILES = fs.readdirSync(path.join(DATA_DIR, 'curves'))
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => `curves/${file}`);
+
+const DATASETS: { file: string; schema: z.ZodType }[] = [
+    { file: 'cars.json', schema: CarListSchema },
+    { file: 'cars_ie.json', schema: CarListSchema },
+    ...CURVE_FILES.map(file => ({ file, schema: DepreciationCurvesSchema })),
+    { file: 'market_stats.json', schema: MarketStatsSchema },
+    { file: 'market_stats_original.json', schema: MarketStatsSchema },
+    { file: 'ved_rules.json', schema: VEDRulesSchema },
+    { file: 'bik_rules.json', schema: BIKRulesSchema }
+];
+
+let failures = 0;
+
+for (const { file, schema } of DATASETS) {
+    try {
+        const data = JSON.parse(fs.readFileSync(path.join(DATA_DIR, file), 'utf-8'));
+        const parsed = parseDataset(schema, data, file);
+        // A curves file is named after its version, which `?dataset=` and the diff script use
+        const version = (parsed as { version?: string }).version;
+        if (file.startsWith('curves/') && `curves/${version}.json` !== file) {
+            throw new Error(`Invalid ${file}: version "${version}" doesn't match the file name`);
+        }
+        console.log(`✓ ${file}`);
+    } catch (error) {
+        failures++;
+        console.error(`✗ ${error instanceof Error ? error.message : error}`);
+    }
+}
+
+if (failures > 0) {
+    console.error(`\n${failures} of ${DATASETS.length} datasets are invalid.`);
+    process.exit(1);
+}
@@ -2,16 +2,12 @@
  * Script to verify depreciation modifiers against market data
  * NORMALISED FOR MILEAGE
  * 
- * This analyses the raw CSV to account for mileage differences between brands/fuel types
+ * This analyses the normalised adverts (`ingest_adverts.ts`) to account for mileage differences between brands/fuel types
  */
 
-import fs from 'fs';
-import path from 'path';
-import { parse } from 'csv-parse';
-import { fileURLToPath } from 'url';
+import { alignedModelYear, readAdverts, readAdvertsManifest } from './advert_dataset';
 
-const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const CSV_PATH = path.join(__dirname, '../src/data/all_car_adverts.csv');
+const SNAPSHOT_YEAR = readAdvertsManifest().snapshotYear; // Model years are aligned to the latest snapshot
 
 interface CarRecord {
     make: string;
@@ -26,35 +22,18 @@ interface CarRecord {
 const SLOWER_DEPRECIATION_BRANDS = ['porsche', 'toyota', 'honda', 'land rover'];
 const FASTER_DEPRECIATION_BRANDS = ['ds', 'polestar', 'mitsubishi', 'renault', 'fiat'];
 
-const normalize = (str: string) => str?.trim().toLowerCase() || '';
-
 async function loadData(): Promise<CarRecord[]> {
     const records: CarRecord[] = [];
 
-    const parser = fs
-        .createReadStream(CSV_PATH)
-        .pipe(parse({
-            columns: true,
-            skip_empty_lines: true,
-            trim: true
-        }));
-
-    for await (const record of parser) {
-        const make = normalize(record.make);
-        const model = normalize(record.model);
-        const fuel = normalize(record.feul_type);
-        const year = parseInt(record.year, 10);
-        const price = parseFloat(record.car_price);
-        const miles = parseInt(record.miles, 10);
-
-        if (!make || !model || !fuel || isNaN(year) || isNaN(price) || isNaN(miles)) {
-            continue;
-        }
+    for await (const advert of readAdverts()) {
+        const { make, model, fuel, price, miles } = advert;
+        const year = alignedModelYear(advert, SNAPSHOT_YEAR);
+
+        if (miles === null) continue;
 
         // Filter to reasonable values
         if (price < 1000 || price > 500000) continue;
-        if (miles < 0 || miles > 300000) continue;
-        if (year < 2018 || year > 2022) continue; // Focus on recent cars
+        if (year < SNAPSHOT_YEAR - 4 || year > SNAPSHOT_YEAR) continue; // Focus on recent cars
 
         records.push({ make, model, fuelType: fuel, year, price, miles });
     }
@@ -62,13 +41,13 @@ async function loadData(): Promise<CarRecord[]> {
     return records;
 }
 
-// Estimate "new price" for a car based on 2022 model average
+// Estimate "new price" for a car based on the newest model year's average
 function getBasePrices(records: CarRecord[]): Map<string, number> {
     const basePrices = new Map<string, number>();
     const counts = new Map<string, { total: number; count: number }>();
 
     for (const r of records) {
-        if (r.year === 2022 && r.miles < 5000) { // Near-new 2022 cars
+        if (r.year === SNAPSHOT_YEAR && r.miles < 5000) { // Near-new cars
             const key = `${r.make}|${r.model}|${r.fuelType}`;
             const existing = counts.get(key) || { total: 0, count: 0 };
             existing.total += r.price;
@@ -96,7 +75,7 @@ interface DepreciationPoint {
 }
 
 async function main() {
-    console.log('Loading data from CSV...');
+    console.log('Loading adverts...');
     const records = await loadData();
     console.log(`Loaded ${records.length} valid records`);
 
@@ -111,7 +90,7 @@ async function main() {
         const basePrice = basePrices.get(key);
         if (!basePrice) continue;
 
-        const ageYears = 2022 - r.year;
+        const ageYears = SNAPSHOT_YEAR - r.year;
         if (ageYears <= 0) continue;
 
         const retention = r.price / basePrice;
@@ -0,0 +1,12 @@
+// Runtime bindings injected by Cloudflare (see wrangler.toml).
+// `wrangler types` would normally generate these; wrangler isn't a local dependency, so they're declared by hand.
+declare module 'cloudflare:workers' {
+    export const env: {
+        DVLA_API_KEY?: string;
+        DVLA_CACHE?: import('./utils/lookupCache').KVNamespaceLike;
+        MOT_API_KEY?: string;
+        MOT_CLIENT_ID?: string;
+        MOT_CLIENT_SECRET?: string;
+        MOT_TOKEN_URL?: string;
+    };
+}
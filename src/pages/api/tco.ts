@@ -0,0 +1,104 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { getCountryProvider, getDefaultProvider, lookupVehicleWithHistory } from '../../utils/countries';
+import { resolveLookupCache } from '../../utils/lookupCache';
+import { describeLookupError, lookupErrorStatus } from '../../utils/lookupResult';
+import { resolveMotCredentials } from '../../utils/motHistory';
+import { MAX_TERM_YEARS, buildTCOReport, errorResponse, jsonResponse } from '../../utils/tcoReport';
+import { parseSornMonths } from '../../utils/taxCalculator';
+import { parseDatasetParam } from '../../utils/curveDatasets';
+import { parseAsOf } from '../../utils/valuationDate';
+
+/**
+ * GET /api/tco?registration=AB12CDE&termYears=3[&price=12000][&annualMileage=10000][&country=gb][&asOf=2024-06-30][&sorn=11,12,1,2][&dataset=2026-02-25]
+ * Returns the ownership cost breakdown for a registration: residual values for
+ * each year of the term, the vehicle tax breakdown and the depreciation/tax totals.
+ * `termMonths=30` can be given instead of `termYears` for part-year terms.
+ * `price` defaults to the vehicle's estimated current price (`basicPrice`) and is
+ * required when there is none (DVLA vehicles without a model or list price),
+ * `annualMileage` to the MOT-recorded average (or the UK average), `country` to GB and
+ * `asOf` (the valuation date the term starts on) to today. `sorn` lists calendar months
+ * the car is declared off the road each year (GB only); they aren't taxed. `dataset`
+ * previews another curves version (default: the active one).
+ */
+export const GET: APIRoute = async ({ url }) => {
+    const registration = url.searchParams.get('registration');
+    const termParam = url.searchParams.get('termYears');
+    const termMonthsParam = url.searchParams.get('termMonths');
+    const priceParam = url.searchParams.get('price');
+    const mileageParam = url.searchParams.get('annualMileage');
+    const countryParam = url.searchParams.get('country');
+
+    const provider = countryParam === null ? getDefaultProvider() : getCountryProvider(countryParam);
+    if (!provider) {
+        return errorResponse(404, 'unsupported-country', `"${countryParam}" is not a supported country.`);
+    }
+
+    if (!registration) {
+        return errorResponse(400, 'missing-registration', 'The "registration" query parameter is required.');
+    }
+
+    if (termParam !== null && termMonthsParam !== null) {
+        return errorResponse(400, 'invalid-term', 'Give either "termYears" or "termMonths", not both.');
+    }
+
+    let termYears: number;
+    if (termMonthsParam !== null) {
+        const termMonths = Number(termMonthsParam);
+        if (!Number.isInteger(termMonths) || termMonths < 1 || termMonths > MAX_TERM_YEARS * 12) {
+            return errorResponse(400, 'invalid-term', `"termMonths" must be a whole number between 1 and ${MAX_TERM_YEARS * 12}.`);
+        }
+        termYears = termMonths / 12;
+    } else {
+        termYears = Number(termParam ?? '3');
+        if (!Number.isInteger(termYears) || termYears < 1 || termYears > MAX_TERM_YEARS) {
+            return errorResponse(400, 'invalid-term', `"termYears" must be a whole number between 1 and ${MAX_TERM_YEARS}.`);
+        }
+    }
+
+    const price = priceParam === null ? null : Number(priceParam);
+    if (price !== null && (!Number.isFinite(price) || price < 0 || price > 10000000)) {
+        return errorResponse(400, 'invalid-price', '"price" must be a number between 0 and 10,000,000.');
+    }
+
+    const annualMileage = mileageParam === null ? undefined : Number(mileageParam);
+    if (annualMileage !== undefined && (!Number.isFinite(annualMileage) || annualMileage < 0 || annualMileage > 100000)) {
+        return errorResponse(400, 'invalid-mileage', '"annualMileage" must be a number between 0 and 100,000.');
+    }
+
+    const asOf = parseAsOf(url.searchParams.get('asOf'));
+    if (!asOf.valid) {
+        return errorResponse(400, 'invalid-as-of', `"asOf": ${asOf.reason}`);
+    }
+
+    const dataset = parseDatasetParam(url.searchParams.get('dataset'));
+    if (!dataset.valid) {
+        return errorResponse(400, 'invalid-dataset', `"dataset": ${dataset.reason}`);
+    }
+
+    const sorn = parseSornMonths(url.searchParams.get('sorn'));
+    if (!sorn.valid) {
+        return errorResponse(400, 'invalid-sorn', `"sorn": ${sorn.reason}`);
+    }
+    if (sorn.months.length > 0 && !provider.offRoadDeclaration) {
+        return errorResponse(400, 'invalid-sorn', `Off-road months aren't modelled for ${provider.name}.`);
+    }
+
+    const apiKey = import.meta.env.DVLA_API_KEY || (env && env.DVLA_API_KEY);
+    const cache = resolveLookupCache(env?.DVLA_CACHE);
+    const motCredentials = resolveMotCredentials(import.meta.env, env);
+    const { result } = await lookupVehicleWithHistory(provider, registration, { apiKey, motCredentials, cache, asOf: asOf.date });
+
+    if (!result.ok) {
+        return errorResponse(lookupErrorStatus(result.error), result.error.kind, describeLookupError(result.error, provider).message);
+    }
+
+    const car = result.car;
+
+    // DVLA-only vehicles have no price to value; /api/vehicle lists `modelCandidates` to pick one from
+    if (price === null && car.basicPrice <= 0) {
+        return errorResponse(400, 'missing-price', `No price is known for ${car.registration}; give "price" (see "modelCandidates" from /api/vehicle).`);
+    }
+
+    return jsonResponse(buildTCOReport(car, termYears, price ?? car.basicPrice, annualMileage, asOf.date, sorn.months, dataset.dataset));
+};
@@ -0,0 +1,50 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { getCountryProvider, lookupVehicleWithHistory } from '../../../../utils/countries';
+import { parseDatasetParam } from '../../../../utils/curveDatasets';
+import { resolveLookupCache } from '../../../../utils/lookupCache';
+import { describeLookupError, lookupErrorStatus } from '../../../../utils/lookupResult';
+import { resolveMotCredentials } from '../../../../utils/motHistory';
+import { buildVehicleReport, errorResponse, jsonResponse } from '../../../../utils/tcoReport';
+import { parseAsOf } from '../../../../utils/valuationDate';
+
+/**
+ * GET /api/vehicle/[country]/[registration][?asOf=2024-06-30][&dataset=2026-02-25]
+ * Returns the resolved Car, the depreciation curve used, its 15-year residual values
+ * and (GB only) its MOT history, valued at `asOf` (default today) with the `dataset`
+ * curves version (default: the active one).
+ * `country` is a provider code or alias (see `utils/countries.ts`), e.g. "gb", "uk" or "ie".
+ */
+export const GET: APIRoute = async ({ params, url }) => {
+    const { country, registration } = params;
+
+    const provider = getCountryProvider(country);
+    if (!provider) {
+        return errorResponse(404, 'unsupported-country', `"${country}" is not a supported country.`);
+    }
+
+    if (!registration) {
+        return errorResponse(400, 'missing-registration', 'A registration is required.');
+    }
+
+    const asOf = parseAsOf(url.searchParams.get('asOf'));
+    if (!asOf.valid) {
+        return errorResponse(400, 'invalid-as-of', `"asOf": ${asOf.reason}`);
+    }
+
+    const dataset = parseDatasetParam(url.searchParams.get('dataset'));
+    if (!dataset.valid) {
+        return errorResponse(400, 'invalid-dataset', `"dataset": ${dataset.reason}`);
+    }
+
+    const apiKey = import.meta.env.DVLA_API_KEY || (env && env.DVLA_API_KEY);
+    const cache = resolveLookupCache(env?.DVLA_CACHE);
+    const motCredentials = resolveMotCredentials(import.meta.env, env);
+    const { result, mot } = await lookupVehicleWithHistory(provider, registration, { apiKey, motCredentials, cache, asOf: asOf.date });
+
+    if (!result.ok) {
+        return errorResponse(lookupErrorStatus(result.error), result.error.kind, describeLookupError(result.error, provider).message);
+    }
+
+    return jsonResponse(buildVehicleReport(result.car, mot?.history, asOf.date, dataset.dataset));
+};
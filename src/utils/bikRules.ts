@@ -0,0 +1,45 @@
+import type { BIKRuleSet } from './companyCarTax';
+import { BIKRulesSchema, parseDataset } from './dataSchemas';
+import bikRulesData from '../data/bik_rules.json';
+
+/**
+ * Company Car (BIK) Rule Sets
+ * The appropriate percentages for company cars are set several tax years ahead and change
+ * each 6 April, as do the income tax and Class 1A NIC rates charged on the benefit. Each tax
+ * year lives in `src/data/bik_rules.json` as a rule set with the date it takes effect, so a
+ * forecast charges each tax year at its own percentages.
+ *
+ * To add a tax year, append a rule set with its `effectiveFrom` date: no code changes are
+ * needed. Dates after the latest rule set use its rates; dates before the earliest use the
+ * earliest (as in `vedRules.ts`).
+ */
+
+// Oldest first; validated on load (see `dataSchemas.ts`)
+const RULE_SETS: BIKRuleSet[] = parseDataset(BIKRulesSchema, bikRulesData, 'bik_rules.json').ruleSets;
+
+export const BIK_RULE_SETS: readonly BIKRuleSet[] = RULE_SETS;
+
+/**
+ * The most recent rule set, for disclaimers
+ */
+export const latestBikRules: BIKRuleSet = RULE_SETS[RULE_SETS.length - 1];
+
+// Local midnight on a YYYY-MM-DD date, matching `parseAsOf`
+function effectiveDate(ruleSet: BIKRuleSet): Date {
+    const [year, month, day] = ruleSet.effectiveFrom.split('-').map(n => parseInt(n, 10));
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * The rule set in force on a date
+ *
+ * @param {Date} [on] - A day in the tax year. Defaults to now.
+ * @returns {BIKRuleSet} The latest rule set effective on or before `on` (the earliest if none is).
+ */
+export function bikRulesInForce(on: Date = new Date()): BIKRuleSet {
+    let inForce = RULE_SETS[0];
+    for (const ruleSet of RULE_SETS) {
+        if (effectiveDate(ruleSet) <= on) inForce = ruleSet;
+    }
+    return inForce;
+}
@@ -1,6 +1,8 @@
-import carsData from '../data/cars.json';
-
 import { fetchVehicleDetails } from './dvla';
+import { localCars } from './localCars';
+import type { LookupCache } from './lookupCache';
+import { lookupFailure, type VehicleLookupResult } from './lookupResult';
+import { normalisePlate, parsePlate, reconcileYearOfManufacture } from './plateParser';
 
 export interface Car {
     registration: string;
@@ -12,6 +14,11 @@ export interface Car {
     colour: string;
     basicPrice: number;
     originalListPrice: number;
+    dateOfFirstRegistration?: string; // YYYY-MM (DVLA `monthOfFirstRegistration`) or YYYY-MM-DD
+    engineCapacity?: number; // cc, from DVLA (not held for local cars)
+    country?: string;        // Country provider code (see `countries.ts`); unset = GB
+    currentMileage?: number; // Estimated miles today, from MOT history (see `motHistory.ts`)
+    annualMileage?: number;  // Average miles per year, from MOT history
     variant?: string;
     title?: string;
 }
@@ -19,34 +26,52 @@ export interface Car {
 /**
  * Fetches vehicle details by registration plate.
  * It first searches the local static database (`cars.json`). 
- * If not found, it falls back to querying the official DVLA API.
+ * If not found, the plate is validated (so impossible plates never cost a DVLA call)
+ * and it falls back to querying the official DVLA API. The year decoded from the
+ * plate fills in or corrects a missing/implausible DVLA `yearOfManufacture`.
  * 
  * @param {string} registration - The UK vehicle registration plate.
  * @param {string} [apiKey] - Optional DVLA API Key. If not provided, it attempts to read from the environment.
- * @returns {Promise<Car | null>} A Promise resolving to the Car object, or null if the vehicle is not found in either source.
+ * @param {LookupCache} [cache] - Optional cache for DVLA responses (see `lookupCache.ts`).
+ * @returns {Promise<VehicleLookupResult>} A Promise resolving to the Car and where it came from, or the reason the lookup failed (see `lookupResult.ts`).
  */
-export const getCarByRegistration = async (registration: string, apiKey?: string): Promise<Car | null> => {
-    const formattedReg = registration.replace(/\s/g, '').toUpperCase();
+export const getCarByRegistration = async (registration: string, apiKey?: string, cache?: LookupCache): Promise<VehicleLookupResult> => {
+    const formattedReg = normalisePlate(registration);
 
     // 1. Try local data first
-    const car = carsData.find(c => c.registration.replace(/\s/g, '').toUpperCase() === formattedReg);
-    if (car) return car;
+    const car = localCars.find(c => normalisePlate(c.registration) === formattedReg);
+    if (car) return { ok: true, car, source: 'local' };
+
+    // 2. Reject impossible plates before spending a DVLA call
+    const parsed = parsePlate(formattedReg);
+    if (!parsed.valid) {
+        console.log(`Rejected registration ${formattedReg}: ${parsed.reason}`);
+        return lookupFailure({ kind: 'invalid-plate', reason: parsed.reason });
+    }
 
-    // 2. Fallback to DVLA API
+    // 3. Fallback to DVLA API
     console.log(`Car ${formattedReg} not found locally, fetching from DVLA...`);
-    const dvlaCar = await fetchVehicleDetails(formattedReg, apiKey);
+    const result = await fetchVehicleDetails(formattedReg, apiKey, cache);
+    if (!result.ok) return result;
+
+    const dvlaCar = result.car;
+    const { year, source } = reconcileYearOfManufacture(dvlaCar.yearOfManufacture, parsed.plate);
+    if (source === 'plate' && year !== undefined) {
+        console.log(`DVLA year for ${formattedReg} (${dvlaCar.yearOfManufacture}) replaced with plate year ${year}`);
+        dvlaCar.yearOfManufacture = year;
+    }
 
-    return dvlaCar;
+    return result;
 };
 
 export const getAllCars = async (): Promise<Car[]> => {
-    return carsData;
+    return localCars;
 }
 
 export const getRandomCar = async (): Promise<Car> => {
     // Simulate network delay
     await new Promise(resolve => setTimeout(resolve, 500));
-    const randomIndex = Math.floor(Math.random() * carsData.length);
-    return carsData[randomIndex];
+    const randomIndex = Math.floor(Math.random() * localCars.length);
+    return localCars[randomIndex];
 };
 
@@ -0,0 +1,231 @@
+import { bikRulesInForce } from './bikRules';
+import type { Car } from './carService';
+
+/**
+ * UK Company Car Tax (Benefit in Kind)
+ * A company or salary-sacrifice car is taxed as a benefit: its list price times the
+ * "appropriate percentage" for the tax year (see `bikRules.ts`). The employee pays income
+ * tax on the benefit at their marginal rate and the employer pays Class 1A NIC on it.
+ *
+ * The appropriate percentage depends on:
+ * - CO₂ emissions: zero-emission cars pay the lowest rate; cars emitting 51 g/km or more
+ *   rise through 5 g/km bands to a cap
+ * - Electric range: cars emitting 1-50 g/km (plug-in hybrids) are banded by how far they
+ *   go on electricity. Without a range, the shortest range band is assumed.
+ * - Fuel: diesels (non-RDE2 assumed) pay a supplement, within the cap
+ *
+ * Tax years run from 6 April. A term is split into the tax years it touches, and the
+ * benefit of a part year is reduced for the days the car isn't available, as HMRC does.
+ * Cars without a CO₂ figure are charged the maximum percentage. The benefit is based on
+ * `originalListPrice` (options and accessories aren't known), and fuel benefit for
+ * employer-paid private fuel isn't modelled.
+ */
+
+/**
+ * A CO₂ band: emissions up to `maxCo2` g/km are taxed at `percent`. The last band has no `maxCo2`.
+ */
+export interface BIKCo2Band {
+    maxCo2?: number;
+    percent: number;
+}
+
+/**
+ * An electric range band: ranges up to `maxRange` miles are taxed at `percent`. The last band has no `maxRange`.
+ */
+export interface BIKRangeBand {
+    maxRange?: number;
+    percent: number;
+}
+
+export type IncomeTaxBand = 'basic' | 'higher' | 'additional';
+
+/**
+ * Company car tax rates in force from `effectiveFrom` until the next rule set
+ */
+export interface BIKRuleSet {
+    taxYear: string;            // e.g. "2025/26"
+    effectiveFrom: string;      // YYYY-MM-DD (6 April)
+    source: string;             // Where the rates come from
+    zeroEmissionPercent: number; // Electric cars (0 g/km)
+    electricRangeBands: BIKRangeBand[]; // Cars emitting 1-50 g/km, by electric range (miles)
+    co2Bands: BIKCo2Band[];     // Cars emitting 51 g/km or more
+    dieselSupplement: number;   // Added for diesels (non-RDE2 assumed), up to `maxPercent`
+    maxPercent: number;
+    incomeTaxRates: Record<IncomeTaxBand, number>; // Percent, rest of UK (not Scotland)
+    class1ANicRate: number;     // Employer's Class 1A NIC, percent
+}
+
+/**
+ * Income tax bands offered to the user, lowest first
+ */
+export const INCOME_TAX_BANDS: readonly { band: IncomeTaxBand; name: string }[] = [
+    { band: 'basic', name: 'Basic rate' },
+    { band: 'higher', name: 'Higher rate' },
+    { band: 'additional', name: 'Additional rate' }
+];
+
+// Tax years start on 6 April
+const TAX_YEAR_START_MONTH = 3;
+const TAX_YEAR_START_DAY = 6;
+
+/**
+ * Cars emitting up to this (g/km) are banded by electric range
+ */
+export const MAX_ELECTRIC_RANGE_CO2 = 50;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A car's appropriate percentage, and how it was arrived at (for display)
+ */
+export interface BIKPercent {
+    percent: number;
+    basis: string;              // e.g. "1–50 g/km, 70–129 miles electric range"
+}
+
+export interface CompanyCarOptions {
+    incomeTaxBand: IncomeTaxBand;
+    electricRange?: number;     // Miles on electricity (plug-in hybrids); unknown = shortest band
+}
+
+/**
+ * Company car tax for one tax year (or the part of it in the term)
+ */
+export interface CompanyCarTaxYear {
+    taxYear: string;            // e.g. "2026/27"
+    days: number;               // Days the car is available in this tax year
+    percent: number;            // Appropriate percentage
+    basis: string;              // How the percentage was arrived at
+    benefit: number;            // Taxable benefit: list price x percent, pro rata for days
+    tax: number;                // Employee's income tax on the benefit
+    employerNic: number;        // Employer's Class 1A NIC on the benefit
+    rules: string;              // Tax year whose rates applied (the latest for later years)
+}
+
+// Whole days between two local dates (daylight saving changes don't count)
+function daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+// 6 April on or before a date
+function taxYearStart(on: Date): Date {
+    const start = new Date(on.getFullYear(), TAX_YEAR_START_MONTH, TAX_YEAR_START_DAY);
+    if (on < start) start.setFullYear(on.getFullYear() - 1);
+    return start;
+}
+
+// "2026/27" for the tax year starting in 2026
+function taxYearLabel(start: Date): string {
+    const year = start.getFullYear();
+    return `${year}/${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+function formatRangeBand(bands: BIKRangeBand[], index: number): string {
+    const band = bands[index];
+    const min = index > 0 ? bands[index - 1].maxRange! + 1 : 0;
+    if (band.maxRange === undefined) return `${min}+ miles`;
+    return min === 0 ? `under ${band.maxRange + 1} miles` : `${min}–${band.maxRange} miles`;
+}
+
+function percentFromRules(car: Car, electricRange: number | undefined, rules: BIKRuleSet): BIKPercent {
+    const fuel = car.fuelType.toUpperCase();
+    const co2 = car.co2Emissions;
+
+    if (fuel === 'ELECTRIC') {
+        return { percent: rules.zeroEmissionPercent, basis: 'Zero emission' };
+    }
+
+    // No CO₂ figure (e.g. older cars): charged the maximum
+    if (co2 <= 0) {
+        return { percent: rules.maxPercent, basis: 'No CO₂ figure, maximum assumed' };
+    }
+
+    let percent: number;
+    let basis: string;
+
+    if (co2 <= MAX_ELECTRIC_RANGE_CO2) {
+        // Plug-in hybrids: banded by electric range; unknown range takes the shortest band
+        const bands = rules.electricRangeBands;
+        const index = electricRange === undefined
+            ? 0
+            : bands.findIndex(band => band.maxRange === undefined || electricRange <= band.maxRange);
+        percent = bands[index].percent;
+        basis = electricRange === undefined
+            ? `1–${MAX_ELECTRIC_RANGE_CO2} g/km, ${formatRangeBand(bands, index)} electric range assumed`
+            : `1–${MAX_ELECTRIC_RANGE_CO2} g/km, ${formatRangeBand(bands, index)} electric range`;
+    } else {
+        percent = rules.co2Bands.find(band => band.maxCo2 === undefined || co2 <= band.maxCo2)!.percent;
+        basis = `${co2} g/km`;
+    }
+
+    // Diesels (non-RDE2 assumed) pay a supplement, but never more than the maximum
+    if (fuel.includes('DIESEL') && percent < rules.maxPercent) {
+        percent = Math.min(rules.maxPercent, percent + rules.dieselSupplement);
+        basis += ', diesel supplement';
+    }
+
+    return { percent, basis };
+}
+
+/**
+ * A car's appropriate percentage in the tax year a date falls in
+ *
+ * @param {Car} car - The car.
+ * @param {number} [electricRange] - Electric range in miles, for cars emitting 1-50 g/km.
+ * @param {Date} [on] - A day in the tax year. Defaults to now.
+ * @returns {BIKPercent} The percentage of the list price that is taxed, and why.
+ */
+export function getBIKPercent(car: Car, electricRange?: number, on: Date = new Date()): BIKPercent {
+    return percentFromRules(car, electricRange, bikRulesInForce(on));
+}
+
+/**
+ * Calculate company car tax for each tax year of a term
+ * @param car - The car object (`originalListPrice` is the list price taxed)
+ * @param termYears - Length of the term in years (may be fractional; rounded to whole months)
+ * @param options - The employee's income tax band and the car's electric range
+ * @param asOf - When the car is first available. Defaults to now.
+ * @returns One entry per (part) tax year, each at the rates in force in that tax year
+ */
+export function calculateCompanyCarTax(
+    car: Car,
+    termYears: number,
+    options: CompanyCarOptions,
+    asOf: Date = new Date()
+): CompanyCarTaxYear[] {
+    const years: CompanyCarTaxYear[] = [];
+    const listPrice = Math.max(0, car.originalListPrice);
+
+    const start = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+    const end = new Date(start);
+    end.setMonth(start.getMonth() + Math.max(0, Math.round(termYears * 12)));
+
+    let from = start;
+    while (from < end) {
+        const yearStart = taxYearStart(from);
+        const nextYearStart = new Date(yearStart.getFullYear() + 1, TAX_YEAR_START_MONTH, TAX_YEAR_START_DAY);
+        const to = end < nextYearStart ? end : nextYearStart;
+
+        const rules = bikRulesInForce(yearStart);
+        const { percent, basis } = percentFromRules(car, options.electricRange, rules);
+
+        // Reduced for the days the car isn't available in the tax year
+        const days = daysBetween(from, to);
+        const benefit = Math.round((listPrice * percent / 100) * days / daysBetween(yearStart, nextYearStart));
+
+        years.push({
+            taxYear: taxYearLabel(yearStart),
+            days,
+            percent,
+            basis,
+            benefit,
+            tax: Math.round(benefit * rules.incomeTaxRates[options.incomeTaxBand]) / 100,
+            employerNic: Math.round(benefit * rules.class1ANicRate) / 100,
+            rules: rules.taxYear
+        });
+
+        from = to;
+    }
+
+    return years;
+}
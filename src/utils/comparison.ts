@@ -0,0 +1,92 @@
+import type { Car } from './carService';
+import { calculateTotalTax } from './countries';
+import { calculateResaleValue, type DepreciationCurves } from './depreciationCalculator';
+
+/**
+ * Vehicle Comparison
+ * Side-by-side ownership costs for several cars over a shared term and annual mileage
+ * (used by `/compare`). The maths matches TCOCalculator: depreciation from our residual
+ * curves (adjusted for the shared mileage) plus the car's annual vehicle tax.
+ */
+
+export const MAX_COMPARE_VEHICLES = 4;
+
+export interface ComparisonEntry {
+    car: Car;
+    purchasePrice: number;
+}
+
+export interface ComparisonRow {
+    car: Car;               // With the shared `annualMileage` applied
+    purchasePrice: number;
+    resaleValue: number;
+    depreciation: number;
+    tax: number;
+    total: number;
+    monthly: number;        // Kept to pence, like the Monthly Cost readout
+    endMileage: number;     // Estimated odometer reading at the end of the term
+}
+
+/**
+ * Cost categories where lower is better (the cheapest option is highlighted)
+ */
+export const COST_CATEGORIES = ['purchasePrice', 'depreciation', 'tax', 'total', 'monthly'] as const;
+export type CostCategory = typeof COST_CATEGORIES[number];
+
+/**
+ * Split a comma-separated `?regs=` value into unique registrations (spaces within a plate are dropped),
+ * keeping the first `MAX_COMPARE_VEHICLES`
+ */
+export function parseRegistrationList(value: string | null): string[] {
+    const registrations = (value ?? '')
+        .split(',')
+        .map(reg => reg.replace(/\s+/g, '').toUpperCase())
+        .filter(Boolean);
+    return [...new Set(registrations)].slice(0, MAX_COMPARE_VEHICLES);
+}
+
+/**
+ * Calculate each vehicle's costs for the same term and annual mileage, valued at `asOf`
+ * with `dataset` (default: each car's country curves)
+ */
+export function compareVehicles(
+    entries: ComparisonEntry[],
+    termYears: number,
+    annualMileage: number,
+    asOf: Date = new Date(),
+    dataset?: DepreciationCurves
+): ComparisonRow[] {
+    const currentYear = asOf.getFullYear();
+
+    return entries.map(({ car: baseCar, purchasePrice }) => {
+        const car: Car = { ...baseCar, annualMileage };
+
+        const resaleValue = calculateResaleValue(purchasePrice, car, termYears, { asOf, dataset });
+        const depreciation = Math.max(0, purchasePrice - resaleValue);
+        const tax = calculateTotalTax(car, termYears, asOf);
+        const total = depreciation + tax;
+
+        // Without MOT records, assume the car has always done the shared mileage
+        const startMileage = car.currentMileage ?? annualMileage * Math.max(0, currentYear - car.yearOfManufacture);
+
+        return {
+            car,
+            purchasePrice,
+            resaleValue,
+            depreciation,
+            tax,
+            total,
+            monthly: Math.round((total / (termYears * 12)) * 100) / 100,
+            endMileage: Math.round(startMileage + annualMileage * termYears)
+        };
+    });
+}
+
+/**
+ * Indexes of the cheapest row(s) for a category (ties are all returned)
+ */
+export function cheapestIndexes(rows: ComparisonRow[], category: CostCategory): number[] {
+    if (rows.length < 2) return [];
+    const lowest = Math.min(...rows.map(r => r[category]));
+    return rows.flatMap((r, i) => (r[category] === lowest ? [i] : []));
+}
@@ -0,0 +1,224 @@
+import type { Car } from './carService';
+import { calculateCompanyCarTax, type CompanyCarOptions, type CompanyCarTaxYear } from './companyCarTax';
+import { activeCurves } from './curveDatasets';
+import { CarListSchema, parseDataset } from './dataSchemas';
+import type { DepreciationCurves } from './depreciationCalculator';
+import { calculateMotorTaxBreakdown, describeMotorTaxRegime } from './irishMotorTax';
+import { normaliseIrishPlate, parseIrishPlate } from './irishPlateParser';
+import type { LookupCache } from './lookupCache';
+import { lookupFailure, type VehicleLookupResult } from './lookupResult';
+import type { MotApiCredentials, MotHistory, MotHistoryResult, MotHistorySource } from './motHistory';
+import { normalisePlate, parsePlate } from './plateParser';
+import { calculateVEDBreakdown, describeVEDRegime, type VEDYear } from './taxCalculator';
+import { latestVedRules } from './vedRules';
+
+/**
+ * Country Providers
+ * Everything that differs between countries lives behind a `CountryProvider`, selected
+ * by the `[country]` route segment (`/analyse/gb/...`, `/api/vehicle/ie/...`):
+ * - Plate validation
+ * - Vehicle lookup (server-side only; loaded lazily so client bundles stay small)
+ * - Optional MOT/inspection history (mileage and defects)
+ * - Annual vehicle tax rules (and which regime applies to a car)
+ * - Optional company car (benefit in kind) tax
+ * - Currency and number formatting
+ * - Depreciation dataset
+ *
+ * Cars carry their provider's code in `car.country`, so client components can pick the
+ * same rules. Cars without one are treated as GB.
+ */
+
+export type PlateValidation =
+    | { valid: true; normalised: string; display: string }
+    | { valid: false; normalised: string; reason: string };
+
+export interface LookupContext {
+    apiKey?: string;       // DVLA API key (GB only)
+    motCredentials?: MotApiCredentials | null; // DVSA MOT History API (GB only); null = local fixtures
+    cache?: LookupCache;
+    asOf?: Date;           // Valuation date the MOT mileage is estimated for; defaults to now
+}
+
+/**
+ * One year of vehicle tax. Shares the UK VED shape; `supplement` is 0 where a country has none.
+ */
+export type TaxYear = VEDYear;
+
+export interface CountryProvider {
+    code: string;              // Canonical route segment (ISO 3166-1 alpha-2, lower case)
+    aliases: string[];         // Other accepted route segments (e.g. "uk")
+    name: string;
+    adjective: string;         // Used in copy (e.g. "UK registration plate")
+    currency: string;          // ISO 4217
+    locale: string;            // For Intl number formatting
+    taxName: string;           // Label for the annual tax line (e.g. "Road Tax (VED)")
+    taxRules: string;          // Which rules the estimates are based on, for disclaimers
+    registryName: string;      // Vehicle register named in lookup error messages
+    depreciationCurves: DepreciationCurves; // The active dataset; previews pass another via `ResidualOptions.dataset`
+    validatePlate(registration: string): PlateValidation;
+    lookupVehicle(registration: string, context: LookupContext): Promise<VehicleLookupResult>;
+    lookupMotHistory?(car: Car, context: LookupContext): Promise<MotHistoryResult>;
+    calculateTaxBreakdown(car: Car, ownershipYears: number, asOf?: Date, sornMonths?: readonly number[]): TaxYear[]; // Years may be fractional (whole months); asOf defaults to now
+    offRoadDeclaration?: string; // What stops the annual tax while a car is off the road ("SORN"); unset where not modelled
+    describeTaxRegime(car: Car): string; // How the car's annual tax is worked out (e.g. "Engine size (pre-Mar 2001)")
+    calculateCompanyCarTax?(car: Car, termYears: number, options: CompanyCarOptions, asOf?: Date): CompanyCarTaxYear[]; // Benefit in kind tax per tax year; unset where not modelled
+}
+
+// The active versioned dataset (see `curveDatasets.ts`)
+const ukCurves: DepreciationCurves = activeCurves;
+
+const gb: CountryProvider = {
+    code: 'gb',
+    aliases: ['uk'],
+    name: 'United Kingdom',
+    adjective: 'UK',
+    currency: 'GBP',
+    locale: 'en-GB',
+    taxName: 'Road Tax (VED)',
+    taxRules: `UK VED rates for each tax year (latest ${latestVedRules.taxYear})`,
+    offRoadDeclaration: 'SORN',
+    registryName: 'DVLA',
+    depreciationCurves: ukCurves,
+    validatePlate(registration) {
+        const result = parsePlate(registration);
+        return result.valid
+            ? { valid: true, normalised: result.plate.normalised, display: result.plate.display }
+            : result;
+    },
+    async lookupVehicle(registration, { apiKey, cache }) {
+        const { getCarByRegistration } = await import('./carService');
+        return withCountry(await getCarByRegistration(registration, apiKey, cache), 'gb');
+    },
+    async lookupMotHistory(car, { motCredentials, cache, asOf }) {
+        const { fetchMotHistory } = await import('./motHistory');
+        return fetchMotHistory(normalisePlate(car.registration), motCredentials ?? null, cache, asOf);
+    },
+    calculateTaxBreakdown: calculateVEDBreakdown,
+    describeTaxRegime: describeVEDRegime,
+    calculateCompanyCarTax
+};
+
+const ie: CountryProvider = {
+    code: 'ie',
+    aliases: [],
+    name: 'Ireland',
+    adjective: 'Irish',
+    currency: 'EUR',
+    locale: 'en-IE',
+    taxName: 'Motor Tax',
+    taxRules: '2024 Irish motor tax rates',
+    registryName: 'Irish vehicle',
+    // No Irish market data yet: UK curves are the closest proxy for a right-hand-drive market
+    depreciationCurves: ukCurves,
+    validatePlate(registration) {
+        const result = parseIrishPlate(registration);
+        return result.valid
+            ? { valid: true, normalised: result.plate.normalised, display: result.plate.display }
+            : result;
+    },
+    // There is no public Irish vehicle enquiry API, so only the local dataset can be analysed
+    async lookupVehicle(registration) {
+        const parsed = parseIrishPlate(registration);
+        if (!parsed.valid) {
+            return lookupFailure({ kind: 'invalid-plate', reason: parsed.reason });
+        }
+
+        const { default: irishData } = await import('../data/cars_ie.json');
+        const irishCars = parseDataset(CarListSchema, irishData, 'cars_ie.json');
+        const car = irishCars.find(c => normaliseIrishPlate(c.registration) === parsed.plate.normalised);
+        if (!car) return lookupFailure({ kind: 'not-found' });
+
+        return { ok: true, car: { ...car, country: 'ie' }, source: 'local' };
+    },
+    calculateTaxBreakdown: calculateMotorTaxBreakdown,
+    describeTaxRegime: describeMotorTaxRegime
+};
+
+const PROVIDERS: CountryProvider[] = [gb, ie];
+
+export const SUPPORTED_COUNTRIES: readonly CountryProvider[] = PROVIDERS;
+
+/**
+ * Resolve a route segment (code or alias, any case) to its provider. Returns null if unsupported.
+ */
+export function getCountryProvider(country: string | undefined): CountryProvider | null {
+    if (!country) return null;
+    const key = country.toLowerCase();
+    return PROVIDERS.find(p => p.code === key || p.aliases.includes(key)) ?? null;
+}
+
+/**
+ * The provider used when no country is given (GB)
+ */
+export function getDefaultProvider(): CountryProvider {
+    return gb;
+}
+
+/**
+ * The provider whose rules apply to a car (GB when unset or unknown)
+ */
+export function getProviderForCar(car: Car): CountryProvider {
+    return getCountryProvider(car.country) ?? gb;
+}
+
+/**
+ * Look up a vehicle and, where the country has one, its MOT history. Recorded mileage is
+ * copied onto the car. A failed MOT lookup never fails the vehicle lookup.
+ */
+export async function lookupVehicleWithHistory(
+    provider: CountryProvider,
+    registration: string,
+    context: LookupContext
+): Promise<{ result: VehicleLookupResult; mot: { history: MotHistory; source: MotHistorySource } | null }> {
+    const result = await provider.lookupVehicle(registration, context);
+    if (!result.ok || !provider.lookupMotHistory) {
+        return { result, mot: null };
+    }
+
+    const mot = await provider.lookupMotHistory(result.car, context);
+    if (!mot.ok) {
+        console.log(`No MOT history for ${result.car.registration}: ${mot.error.kind}`);
+        return { result, mot: null };
+    }
+
+    const { applyMotMileage } = await import('./motHistory');
+    return {
+        result: { ...result, car: applyMotMileage(result.car, mot.history) },
+        mot: { history: mot.history, source: mot.source }
+    };
+}
+
+/**
+ * Total vehicle tax for an ownership period (may be fractional) starting at `asOf`, using
+ * the car's country rules. Rounded to pence, as part-year refunds are. `sornMonths` (calendar
+ * months off the road each year) only apply where the country has an `offRoadDeclaration`.
+ */
+export function calculateTotalTax(car: Car, ownershipYears: number, asOf: Date = new Date(), sornMonths: readonly number[] = []): number {
+    const total = getProviderForCar(car)
+        .calculateTaxBreakdown(car, ownershipYears, asOf, sornMonths)
+        .reduce((sum, year) => sum + year.total, 0);
+    return Math.round(total * 100) / 100;
+}
+
+/**
+ * Format an amount in a provider's currency (whole units unless `maxFractionDigits` says otherwise)
+ */
+export function formatMoney(value: number, provider: CountryProvider, maxFractionDigits: number = 0): string {
+    return new Intl.NumberFormat(provider.locale, {
+        style: 'currency',
+        currency: provider.currency,
+        maximumFractionDigits: maxFractionDigits,
+    }).format(value);
+}
+
+/**
+ * The currency symbol on its own (e.g. "£", "€"), for input labels
+ */
+export function currencySymbol(provider: CountryProvider): string {
+    const parts = new Intl.NumberFormat(provider.locale, { style: 'currency', currency: provider.currency }).formatToParts(0);
+    return parts.find(p => p.type === 'currency')?.value ?? provider.currency;
+}
+
+function withCountry(result: VehicleLookupResult, country: string): VehicleLookupResult {
+    return result.ok ? { ...result, car: { ...result.car, country } } : result;
+}
@@ -0,0 +1,73 @@
+import { DepreciationCurvesSchema, parseDataset } from './dataSchemas';
+import type { DepreciationCurves } from './depreciationCalculator';
+import curves20260225 from '../data/curves/2026-02-25.json';
+
+/**
+ * Curve Datasets
+ * Each run of `scripts/generate_curves.ts` writes a new versioned dataset to
+ * `src/data/curves/<version>.json` (with its snapshot year and provenance) instead of
+ * overwriting the last one. A dataset is only used once it is registered below, and only
+ * becomes the default when `ACTIVE_CURVES_VERSION` points at it.
+ *
+ * To review a new version before shipping it: register it, compare it with
+ * `npx tsx scripts/diff_curves.ts <active> <new>`, and preview it in the app with
+ * `?dataset=<version>` (pages reject unknown versions; client components read the same
+ * parameter with `pageCurves()`). Then switch `ACTIVE_CURVES_VERSION`.
+ */
+
+export const ACTIVE_CURVES_VERSION = '2026-02-25';
+
+// Oldest first; validated on load (see `dataSchemas.ts`)
+const DATASETS: DepreciationCurves[] = [
+    parseDataset(DepreciationCurvesSchema, curves20260225, 'curves/2026-02-25.json')
+];
+
+export const CURVE_DATASETS: readonly DepreciationCurves[] = DATASETS;
+
+/**
+ * Find a registered dataset by version
+ */
+export function getCurveDataset(version: string): DepreciationCurves | null {
+    return DATASETS.find(d => d.version === version) ?? null;
+}
+
+const active = getCurveDataset(ACTIVE_CURVES_VERSION);
+if (!active) {
+    throw new Error(`ACTIVE_CURVES_VERSION "${ACTIVE_CURVES_VERSION}" is not a registered curves dataset`);
+}
+
+/**
+ * The dataset used unless another is previewed
+ */
+export const activeCurves: DepreciationCurves = active;
+
+export type DatasetParseResult =
+    | { valid: true; dataset: DepreciationCurves }
+    | { valid: false; reason: string };
+
+/**
+ * Parse a `dataset` parameter. Missing or blank means the active dataset.
+ *
+ * @param {string | null | undefined} value - Raw parameter value (a version).
+ * @returns {DatasetParseResult} The dataset, or why it was rejected.
+ */
+export function parseDatasetParam(value: string | null | undefined): DatasetParseResult {
+    const version = value?.trim();
+    if (!version) return { valid: true, dataset: activeCurves };
+
+    const dataset = getCurveDataset(version);
+    if (!dataset) {
+        const versions = DATASETS.map(d => d.version).join(', ');
+        return { valid: false, reason: `Unknown curves dataset "${version}". Available: ${versions}.` };
+    }
+    return { valid: true, dataset };
+}
+
+/**
+ * The current page's curves from its `?dataset=` parameter (browser only).
+ * Unknown versions fall back to the active dataset, as the page has already rejected them.
+ */
+export function pageCurves(): DepreciationCurves {
+    const result = parseDatasetParam(new URL(window.location.href).searchParams.get('dataset'));
+    return result.valid ? result.dataset : activeCurves;
+}
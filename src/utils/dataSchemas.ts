@@ -0,0 +1,272 @@
+import { z } from 'astro/zod';
+import type { Car } from './carService';
+import type { BIKCo2Band, BIKRangeBand, BIKRuleSet } from './companyCarTax';
+import type { CurveData, DepreciationCurves } from './depreciationCalculator';
+import type { VEDBand, VEDEngineBand, VEDRuleSet } from './taxCalculator';
+
+/**
+ * Data Schemas
+ * Runtime checks for the bundled JSON datasets (`cars.json`, `cars_ie.json`,
+ * `curves/<version>.json`, `market_stats.json`, `ved_rules.json`, `bik_rules.json`). A bad record (a string CO₂ value, a
+ * missing `global` curve) would otherwise flow silently into the forecasts.
+ *
+ * Data is validated where it is loaded (`localCars.ts`, `countries.ts`, `marketStats.ts`, `vedRules.ts`,
+ * `bikRules.ts`)
+ * and by the scripts that generate it before they write (see `scripts/validate_data.ts`).
+ * Errors name the file and the offending key or record, e.g.
+ * `cars.json[12] (ST22 KLM).co2Emissions: Invalid input: expected number, received string`.
+ */
+
+const FIRST_YEAR = 1900;
+const LAST_YEAR = 2100;
+const MAX_AGE_RATES = 30;
+
+export const CarSchema: z.ZodType<Car> = z.object({
+    registration: z.string().trim().min(1),
+    make: z.string().trim().min(1),
+    model: z.string().trim().min(1),
+    yearOfManufacture: z.number().int().min(FIRST_YEAR).max(LAST_YEAR),
+    fuelType: z.string().trim().min(1),
+    co2Emissions: z.number().min(0),
+    colour: z.string(),
+    basicPrice: z.number().min(0),
+    originalListPrice: z.number().min(0),
+    dateOfFirstRegistration: z.string().regex(/^\d{4}-\d{2}(-\d{2})?$/, 'Expected YYYY-MM or YYYY-MM-DD').optional(),
+    engineCapacity: z.number().int().positive().optional(),
+    country: z.string().optional(),
+    currentMileage: z.number().min(0).optional(),
+    annualMileage: z.number().min(0).optional(),
+    variant: z.string().optional(),
+    title: z.string().optional()
+});
+
+/**
+ * A local vehicle dataset. Registrations must be unique (ignoring spaces and case).
+ */
+export const CarListSchema: z.ZodType<Car[]> = z.array(CarSchema).superRefine((cars, ctx) => {
+    const seen = new Map<string, number>();
+    cars.forEach((car, index) => {
+        const key = car.registration.replace(/\s+/g, '').toUpperCase();
+        const first = seen.get(key);
+        if (first !== undefined) {
+            ctx.addIssue({ code: 'custom', path: [index, 'registration'], message: `Duplicate of record [${first}]` });
+        } else {
+            seen.set(key, index);
+        }
+    });
+});
+
+export const CurveDataSchema: z.ZodType<CurveData> = z.object({
+    rate: z.number().gt(0).lt(1),
+    dataPoints: z.number().int().min(0),
+    mileageElasticity: z.number().min(-0.1).max(0).optional(),
+    ageRates: z.array(z.number().min(0).lt(1)).min(1).max(MAX_AGE_RATES).optional(),
+    rateSpread: z.number().min(0).lt(1).optional(),
+    fit: z.object({
+        r2: z.number().min(0).max(1),
+        rateStdError: z.number().min(0),
+        ages: z.number().int().min(2)
+    }).optional(),
+    poorFit: z.string().min(1).optional()
+});
+
+export const DepreciationCurvesSchema: z.ZodType<DepreciationCurves> = z.object({
+    version: z.string().regex(/^[A-Za-z0-9._-]+$/, 'Expected letters, digits, dots, dashes or underscores'),
+    snapshotYear: z.number().int().min(FIRST_YEAR).max(LAST_YEAR),
+    provenance: z.object({
+        source: z.string().trim().min(1),
+        description: z.string().optional(),
+        records: z.number().int().min(0).optional(),
+        script: z.string().trim().min(1)
+    }),
+    curves: z.record(z.string(), CurveDataSchema).refine(curves => 'global' in curves, {
+        message: 'Missing "global" curve (the last-resort fallback)'
+    }),
+    specialModifiers: z.object({ global: z.number().positive() }).catchall(z.number().positive()),
+    ruleModifiers: z.record(z.string(), z.number().positive()).optional(),
+    generatedAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+    minDataPoints: z.number().int().min(0),
+    totalCurves: z.number().int().min(0),
+    referenceAnnualMileage: z.number().positive().optional(),
+    mileageElasticity: z.number().min(-0.1).max(0).optional(),
+    note: z.string().optional()
+}).superRefine((data, ctx) => {
+    const count = Object.keys(data.curves).length;
+    if (data.totalCurves !== count) {
+        ctx.addIssue({ code: 'custom', path: ['totalCurves'], message: `Expected ${count} (the number of curves), received ${data.totalCurves}` });
+    }
+});
+
+export const MarketYearSchema = z.object({
+    count: z.number().int().positive(),
+    avgPrice: z.number().min(0)
+});
+
+/**
+ * `market_stats.json`: make → model → fuel → year of manufacture → listings summary
+ */
+export const MarketStatsSchema = z.record(
+    z.string(),
+    z.record(z.string(), z.record(z.string(), z.record(z.string().regex(/^\d{4}$/, 'Expected a 4-digit year'), MarketYearSchema)))
+);
+
+const Money = z.number().min(0);
+
+/**
+ * Check banded rates: limits in ascending order, and only the last band open-ended
+ */
+function checkBands(bands: Record<string, number | undefined>[], limit: string, ctx: z.RefinementCtx) {
+    bands.forEach((band, index) => {
+        const last = index === bands.length - 1;
+        if (last && band[limit] !== undefined) {
+            ctx.addIssue({ code: 'custom', path: [index, limit], message: `The last band must be open-ended (no ${limit})` });
+        }
+        if (!last && band[limit] === undefined) {
+            ctx.addIssue({ code: 'custom', path: [index, limit], message: 'Only the last band can be open-ended' });
+        }
+        const previous = bands[index - 1]?.[limit];
+        const value = band[limit];
+        if (value !== undefined && previous !== undefined && value <= previous) {
+            ctx.addIssue({ code: 'custom', path: [index, limit], message: `Expected more than the previous band's ${previous}` });
+        }
+    });
+}
+
+const VEDBandsSchema: z.ZodType<VEDBand[]> = z.array(z.object({
+    maxCo2: z.number().min(0).optional(),
+    rate: Money
+})).min(1).superRefine((bands, ctx) => checkBands(bands, 'maxCo2', ctx));
+
+const VEDEngineBandsSchema: z.ZodType<VEDEngineBand[]> = z.array(z.object({
+    maxCc: z.number().int().positive().optional(),
+    rate: Money
+})).min(1).superRefine((bands, ctx) => checkBands(bands, 'maxCc', ctx));
+
+export const VEDRuleSetSchema: z.ZodType<VEDRuleSet> = z.object({
+    taxYear: z.string().regex(/^\d{4}\/\d{2}$/, 'Expected a tax year like 2025/26'),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+    source: z.string().trim().min(1),
+    zeroEmissionExempt: z.boolean(),
+    firstYearRates: z.object({
+        standard: VEDBandsSchema,
+        diesel: VEDBandsSchema
+    }),
+    standardRate: Money,
+    pre2017Rates: VEDBandsSchema,
+    pre2001Rates: VEDEngineBandsSchema,
+    expensiveCar: z.object({
+        supplement: Money,
+        threshold: z.number().positive(),
+        electricThreshold: z.number().positive().optional(),
+        electricThresholdRegisteredFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date').optional()
+    }),
+    historicVehicleYears: z.number().int().positive()
+});
+
+/**
+ * Check versioned rule sets: in order of `effectiveFrom`, each tax year once
+ */
+function checkRuleSets(ruleSets: { taxYear: string; effectiveFrom: string }[], ctx: z.RefinementCtx) {
+    ruleSets.forEach((ruleSet, index) => {
+        const previous = ruleSets[index - 1];
+        if (previous && ruleSet.effectiveFrom <= previous.effectiveFrom) {
+            ctx.addIssue({ code: 'custom', path: ['ruleSets', index, 'effectiveFrom'], message: `Expected a date after ${previous.effectiveFrom} (rule sets are oldest first)` });
+        }
+        if (ruleSets.findIndex(r => r.taxYear === ruleSet.taxYear) !== index) {
+            ctx.addIssue({ code: 'custom', path: ['ruleSets', index, 'taxYear'], message: `Duplicate tax year ${ruleSet.taxYear}` });
+        }
+    });
+}
+
+/**
+ * `ved_rules.json`: rule sets in order of `effectiveFrom`, each tax year once
+ */
+export const VEDRulesSchema = z.object({
+    note: z.string().optional(),
+    ruleSets: z.array(VEDRuleSetSchema).min(1)
+}).superRefine((data, ctx) => checkRuleSets(data.ruleSets, ctx));
+
+const Percent = z.number().min(0).max(100);
+
+const BIKCo2BandsSchema: z.ZodType<BIKCo2Band[]> = z.array(z.object({
+    maxCo2: z.number().min(0).optional(),
+    percent: Percent
+})).min(1).superRefine((bands, ctx) => checkBands(bands, 'maxCo2', ctx));
+
+const BIKRangeBandsSchema: z.ZodType<BIKRangeBand[]> = z.array(z.object({
+    maxRange: z.number().int().positive().optional(),
+    percent: Percent
+})).min(1).superRefine((bands, ctx) => checkBands(bands, 'maxRange', ctx));
+
+export const BIKRuleSetSchema: z.ZodType<BIKRuleSet> = z.object({
+    taxYear: z.string().regex(/^\d{4}\/\d{2}$/, 'Expected a tax year like 2025/26'),
+    effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+    source: z.string().trim().min(1),
+    zeroEmissionPercent: Percent,
+    electricRangeBands: BIKRangeBandsSchema,
+    co2Bands: BIKCo2BandsSchema,
+    dieselSupplement: Percent,
+    maxPercent: Percent,
+    incomeTaxRates: z.object({
+        basic: Percent,
+        higher: Percent,
+        additional: Percent
+    }),
+    class1ANicRate: Percent
+});
+
+/**
+ * `bik_rules.json`: rule sets in order of `effectiveFrom`, each tax year once
+ */
+export const BIKRulesSchema = z.object({
+    note: z.string().optional(),
+    ruleSets: z.array(BIKRuleSetSchema).min(1)
+}).superRefine((data, ctx) => checkRuleSets(data.ruleSets, ctx));
+
+export type MarketYear = z.infer<typeof MarketYearSchema>;
+export type MarketStats = z.infer<typeof MarketStatsSchema>;
+
+/**
+ * Validate a dataset, throwing an error that lists every problem by key or record.
+ *
+ * @param {z.ZodType<T>} schema - Schema for the whole file.
+ * @param {unknown} data - Parsed JSON.
+ * @param {string} source - File name used in error messages (e.g. `cars.json`).
+ * @returns {T} The data, typed.
+ */
+export function parseDataset<T>(schema: z.ZodType<T>, data: unknown, source: string): T {
+    const result = schema.safeParse(data);
+    if (result.success) return result.data;
+
+    const problems = result.error.issues.map(issue => {
+        // Bad record keys (e.g. a market_stats year of "32") carry the key schema's message
+        const message = issue.code === 'invalid_key' ? issue.issues[0]?.message ?? issue.message : issue.message;
+        return `  - ${source}${describePath(data, issue.path)}: ${message}`;
+    });
+    throw new Error(`Invalid ${source} (${problems.length} problem${problems.length === 1 ? '' : 's'}):\n${problems.join('\n')}`);
+}
+
+/**
+ * Render an issue path as an accessor (`.curves["audi|petrol"].rate`), labelling
+ * array records with their registration where they have one
+ */
+function describePath(data: unknown, path: PropertyKey[]): string {
+    let node: unknown = data;
+    let described = '';
+
+    for (const key of path) {
+        if (typeof key === 'number') {
+            described += `[${key}]`;
+            node = Array.isArray(node) ? node[key] : undefined;
+            const registration = (node as { registration?: unknown } | undefined)?.registration;
+            if (typeof registration === 'string') described += ` (${registration})`;
+            continue;
+        }
+
+        const name = String(key);
+        described += /^[A-Za-z_$][\w$]*$/.test(name) ? `.${name}` : `[${JSON.stringify(name)}]`;
+        node = node && typeof node === 'object' ? (node as Record<string, unknown>)[name] : undefined;
+    }
+
+    return described;
+}
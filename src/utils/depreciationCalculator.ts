@@ -1,41 +1,118 @@
 import type { Car } from './carService';
-import depreciationData from '../data/depreciation_curves.json';
+import { getDefaultProvider, getProviderForCar } from './countries';
+import { describeSpecialVariant, matchSpecialVariant, type SpecialVariantMatch } from './specialVariants';
 
 /**
- * Curve data from the generated JSON
+ * Curve data from the generated JSON (validated by `DepreciationCurvesSchema` in `dataSchemas.ts`)
  */
-interface CurveData {
+export interface CurveData {
     rate: number;
     dataPoints: number;
+    mileageElasticity?: number; // Change in log value per extra 1,000 miles (negative); unset = dataset default
+    ageRates?: number[];        // Yearly rate by age ([0] = new to 1 year old); the last applies to all older ages
+    rateSpread?: number;        // Standard deviation of the yearly rates behind `rate`; unset = estimated from dataPoints
+    fit?: CurveFit;             // Regression statistics; unset in datasets generated before fits were recorded
+    poorFit?: string;           // Why the fit can't be trusted; `findBestCurve` skips the curve for a broader one
 }
 
-interface DepreciationCurves {
+/**
+ * How well a curve's log-price regression on age fitted (see `scripts/generate_curves.ts`)
+ */
+export interface CurveFit {
+    r2: number;            // Share of the variance in log price explained by age
+    rateStdError: number;  // Standard error of `rate`
+    ages: number;          // Model years in the fit
+}
+
+/**
+ * Where a curves dataset came from
+ */
+export interface DatasetProvenance {
+    source: string;          // Input file(s) (e.g. `all_car_adverts.csv`)
+    description?: string;    // What the source is and when it was collected
+    records?: number;        // Adverts used after cleaning
+    script: string;          // Script that generated the dataset
+}
+
+/**
+ * A versioned curves dataset (`src/data/curves/<version>.json`; see `curveDatasets.ts`)
+ */
+export interface DepreciationCurves {
+    version: string;
+    snapshotYear: number;    // Year the source adverts were collected; ages are measured from it
+    provenance: DatasetProvenance;
     curves: { [key: string]: CurveData };
     specialModifiers: { [make: string]: number; global: number };
+    ruleModifiers?: { [ruleId: string]: number }; // Per special variant rule (see `specialVariants.ts`); preferred over the make's
     generatedAt: string;
     minDataPoints: number;
     totalCurves: number;
+    referenceAnnualMileage?: number; // Miles per year the rates are normalised to
+    mileageElasticity?: number;      // Fallback for curves without their own
+    note?: string;
 }
 
-const data = (depreciationData as DepreciationCurves);
-const curves = data.curves;
-const specialModifiers = data.specialModifiers;
+/**
+ * Mileage assumptions. Curves generated before mileage normalisation don't carry these,
+ * so the defaults apply (their rates implicitly assume typical UK mileage).
+ */
+export const DEFAULT_ANNUAL_MILEAGE = 8000;         // Roughly the UK average for cars
+export const DEFAULT_MILEAGE_ELASTICITY = -0.006;   // ~0.6% of value per extra 1,000 miles
+const MAX_MILEAGE_DEVIATION = 60000;                // Beyond this, extra miles stop moving the price much
+
+/**
+ * Multipliers of the base rate by age, for curves without their own `ageRates`:
+ * steep first two years, flattening from year 4. The last entry applies to all older ages.
+ */
+export const DEFAULT_AGE_SHAPE = [1.5, 1.2, 1.0, 1.0, 0.7];
+
+/**
+ * Rate uncertainty for the low/high forecasts. Curves without a recorded `rateSpread`
+ * assume ±15% of their rate, widening for curves built from fewer listings.
+ */
+const DEFAULT_RELATIVE_SPREAD = 0.15;
+const MAX_RELATIVE_SPREAD = 0.6;
+const FULL_CONFIDENCE_DATA_POINTS = 2000;  // Listings above which the default spread stops narrowing
+const MIN_RATE_SPREAD = 0.02;              // Never narrower than ±2 percentage points a year
 
-const SPECIAL_VARIANT_KEYWORDS = [
-    'AMG', 'RS', 'M3', 'M4', 'M5', 'GT', 'COSWORTH', 'S3', 'S4', 'S5',
-    'MUSTANG', 'F150', 'ECONOLINE', 'M SPORT', 'R TYPE', 'TYPE R', 'GTI',
-    'CUPRA', 'ABARTH', 'VXR', 'ST', 'JOHN COOPER WORKS', 'JCW', 'QUADRIFOGLIO'
-];
+/**
+ * Low, central and high estimates (low = faster depreciation)
+ */
+export interface ValueRange {
+    low: number;
+    central: number;
+    high: number;
+}
+
+/**
+ * Optional inputs to the residual calculation
+ */
+export interface ResidualOptions {
+    currentMileage?: number; // Odometer today. Defaults to `car.currentMileage`, then typical (reference) mileage for its age
+    annualMileage?: number;  // Expected miles per year from now. Defaults to `car.annualMileage`, then the rate implied by `currentMileage`, then the dataset reference
+    asOf?: Date;             // Valuation date the car's age is measured at. Defaults to now (see `valuationDate.ts`)
+    dataset?: DepreciationCurves; // Curves to use. Defaults to the car's country dataset (backtests pass candidate curves)
+}
 
 export function isSpecialVariant(car: Car): boolean {
-    const combined = `${car.make} ${car.model} ${car.variant || ''} ${car.title || ''}`.toUpperCase();
-    return SPECIAL_VARIANT_KEYWORDS.some(keyword => {
-        if (keyword.length <= 2) {
-            const regex = new RegExp(`\\b${keyword}\\b`);
-            return regex.test(combined);
-        }
-        return combined.includes(keyword);
-    });
+    return matchSpecialVariant(car) !== null;
+}
+
+/**
+ * The special variant rule applied to a curve, and where its modifier came from
+ */
+export interface AppliedSpecialVariant extends SpecialVariantMatch {
+    modifier: number;
+    modifierSource: 'rule' | 'make' | 'global'; // Rule-specific, the make's special variants, or all special variants
+}
+
+/**
+ * A more specific curve passed over because its fit was poor
+ */
+export interface SkippedCurve {
+    level: CurveSource['level'];
+    key: string;
+    reason: string;
 }
 
 /**
@@ -46,14 +123,33 @@ export interface CurveSource {
     key: string;
     rate: number;
     dataPoints: number;
+    mileageElasticity: number;
+    ageShape: number[];         // Multipliers of `rate` by age (the last applies to all older ages)
+    ageShapeKey: string | null; // Curve the shape came from; null = DEFAULT_AGE_SHAPE
+    rateSpread: number;         // ± uncertainty on `rate` used for the low/high forecasts
+    datasetVersion: string;     // Curves dataset the rate came from (see `curveDatasets.ts`)
     appliedSpecialModifier: boolean;
+    specialVariant: AppliedSpecialVariant | null; // Which rule matched and the modifier applied
+    skippedCurves: SkippedCurve[];                // Poorly fitted curves passed over, most specific first
 }
 
 /**
  * Find the best available depreciation curve for a car
  * Uses hierarchical lookup at make+fuel level (model excluded due to data quality)
+ * within a country's dataset (see `CountryProvider.depreciationCurves`).
+ * Curves flagged `poorFit` are skipped for the next level (except global, the last resort).
+ * The age shape comes from the selected curve's `ageRates`, or from the next level down
+ * that has them (relative to that curve's rate), or `DEFAULT_AGE_SHAPE`.
  */
-export function findBestCurve(make: string, model: string, fuelType: string, isSpecial: boolean = false): CurveSource {
+export function findBestCurve(
+    make: string,
+    model: string,
+    fuelType: string,
+    specialMatch: SpecialVariantMatch | null = null,
+    dataset: DepreciationCurves = getDefaultProvider().depreciationCurves
+): CurveSource {
+    const { curves, specialModifiers, ruleModifiers } = dataset;
+    const defaultElasticity = dataset.mileageElasticity ?? DEFAULT_MILEAGE_ELASTICITY;
     const normMake = make.toLowerCase();
     const normFuel = fuelType.toLowerCase();
 
@@ -66,16 +162,31 @@ export function findBestCurve(make: string, model: string, fuelType: string, isS
     ];
 
     let selectedCurve: CurveSource | null = null;
+    const skippedCurves: SkippedCurve[] = [];
+    const usable = (key: string) => curves[key] && (!curves[key].poorFit || key === 'global');
 
-    for (const { key, level } of candidates) {
+    for (const [index, { key, level }] of candidates.entries()) {
         const curve = curves[key];
+        if (curve?.poorFit && key !== 'global') {
+            skippedCurves.push({ level, key, reason: curve.poorFit });
+            continue;
+        }
         if (curve) {
+            const shapeKey = candidates.slice(index).map(c => c.key).find(k => usable(k) && curves[k].ageRates?.length);
+            const shapeCurve = shapeKey ? curves[shapeKey] : null;
             selectedCurve = {
                 level,
                 key,
                 rate: curve.rate,
                 dataPoints: curve.dataPoints,
-                appliedSpecialModifier: false
+                mileageElasticity: curve.mileageElasticity ?? defaultElasticity,
+                ageShape: shapeCurve?.ageRates ? shapeCurve.ageRates.map(r => r / shapeCurve.rate) : DEFAULT_AGE_SHAPE,
+                ageShapeKey: shapeKey ?? null,
+                rateSpread: curve.rateSpread ?? estimateRateSpread(curve.rate, curve.dataPoints),
+                datasetVersion: dataset.version,
+                appliedSpecialModifier: false,
+                specialVariant: null,
+                skippedCurves
             };
             break;
         }
@@ -88,74 +199,175 @@ export function findBestCurve(make: string, model: string, fuelType: string, isS
             key: 'fallback',
             rate: 0.15,
             dataPoints: 0,
-            appliedSpecialModifier: false
+            mileageElasticity: defaultElasticity,
+            ageShape: DEFAULT_AGE_SHAPE,
+            ageShapeKey: null,
+            rateSpread: estimateRateSpread(0.15, 0),
+            datasetVersion: dataset.version,
+            appliedSpecialModifier: false,
+            specialVariant: null,
+            skippedCurves
         };
     }
 
-    // Apply special variant modifier if applicable
-    if (isSpecial) {
-        const modifier = specialModifiers[normMake] || specialModifiers['global'] || 1.0;
+    // Apply special variant modifier if applicable: the rule's own, then the make's, then the global one
+    if (specialMatch) {
+        const ruleModifier = ruleModifiers?.[specialMatch.ruleId];
+        const [modifier, modifierSource]: [number, AppliedSpecialVariant['modifierSource']] =
+            ruleModifier ? [ruleModifier, 'rule']
+            : specialModifiers[normMake] ? [specialModifiers[normMake], 'make']
+            : [specialModifiers['global'] || 1.0, 'global'];
         selectedCurve.rate = selectedCurve.rate * modifier;
+        selectedCurve.rateSpread = selectedCurve.rateSpread * modifier;
         selectedCurve.appliedSpecialModifier = true;
+        selectedCurve.specialVariant = { ...specialMatch, modifier, modifierSource };
     }
 
+    selectedCurve.rateSpread = Math.max(MIN_RATE_SPREAD, selectedCurve.rateSpread);
+
     return selectedCurve;
 }
 
+/**
+ * Spread for curves generated before spreads were recorded: a share of the rate that
+ * grows as the number of listings behind it falls
+ */
+function estimateRateSpread(rate: number, dataPoints: number): number {
+    const widening = Math.sqrt(FULL_CONFIDENCE_DATA_POINTS / Math.max(1, dataPoints));
+    return rate * Math.min(MAX_RELATIVE_SPREAD, DEFAULT_RELATIVE_SPREAD * Math.max(1, widening));
+}
+
 /**
  * Calculate the residual value of a car after a given number of years.
  * Returns the estimated resale value as a decimal multiplier (e.g., 0.6 = 60% of original value).
+ * Years may be fractional (a 30-month term is 2.5); they are rounded to whole months.
  * 
  * Uses hierarchical curve lookup based on make, model, and fuel type.
- * Takes into account the car's current age - older cars have already passed
- * the steep early depreciation years.
+ * Takes into account the car's current age - each year of ownership uses the curve's
+ * age shape, so older cars have already passed the steep early depreciation years.
+ *
+ * The age-based rate assumes the dataset's reference annual mileage. Covering more
+ * (or fewer) miles than that over the term lowers (or raises) the result via the
+ * curve's mileage elasticity (see `calculateMileageAdjustment`).
  */
-export function calculateResidualFactor(car: Car, ownershipYears: number): number {
-    const isSpecial = isSpecialVariant(car);
-    const curveSource = findBestCurve(car.make, car.model, car.fuelType, isSpecial);
-    const baseRate = curveSource.rate;
+export function calculateResidualFactor(car: Car, ownershipYears: number, options: ResidualOptions = {}): number {
+    const dataset = options.dataset ?? getProviderForCar(car).depreciationCurves;
+    const curveSource = findBestCurve(car.make, car.model, car.fuelType, matchSpecialVariant(car), dataset);
+    return projectResidual(car, ownershipYears, curveSource, curveSource.rate, dataset, options);
+}
+
+/**
+ * Low, central and high residual factors: the curve's rate minus/plus its `rateSpread`
+ * (roughly one standard deviation), run through the same age shape and mileage adjustment
+ */
+export function calculateResidualRange(car: Car, ownershipYears: number, options: ResidualOptions = {}): ValueRange {
+    const dataset = options.dataset ?? getProviderForCar(car).depreciationCurves;
+    const curveSource = findBestCurve(car.make, car.model, car.fuelType, matchSpecialVariant(car), dataset);
+    const { rate, rateSpread } = curveSource;
+    return {
+        low: projectResidual(car, ownershipYears, curveSource, rate + rateSpread, dataset, options),
+        central: projectResidual(car, ownershipYears, curveSource, rate, dataset, options),
+        high: projectResidual(car, ownershipYears, curveSource, Math.max(0, rate - rateSpread), dataset, options)
+    };
+}
 
-    // Calculate car's current age
-    const currentYear = new Date().getFullYear();
+function projectResidual(
+    car: Car,
+    ownershipYears: number,
+    curveSource: CurveSource,
+    baseRate: number,
+    dataset: DepreciationCurves,
+    options: ResidualOptions
+): number {
+    // Calculate car's age at the valuation date
+    const currentYear = (options.asOf ?? new Date()).getFullYear();
     const carAge = currentYear - car.yearOfManufacture;
 
     let residual = 1.0;
 
+    // Work in whole months; a final part year takes its share of that year's rate
+    const months = Math.max(0, Math.round(ownershipYears * 12));
+
     // For each year of ownership, apply the rate based on the car's age at that point
-    for (let i = 0; i < ownershipYears; i++) {
+    for (let i = 0; i * 12 < months; i++) {
         const ageAtThisPoint = carAge + i;
 
-        // Early years depreciate faster, later years slower
-        // Scale the base rate based on age
-        let yearlyRate: number;
-        if (ageAtThisPoint === 0) {
-            yearlyRate = baseRate * 1.5; // First year: 150% of base rate
-        } else if (ageAtThisPoint === 1) {
-            yearlyRate = baseRate * 1.2; // Second year: 120% of base rate
-        } else if (ageAtThisPoint <= 3) {
-            yearlyRate = baseRate; // Years 2-3: base rate
-        } else {
-            yearlyRate = baseRate * 0.7; // Years 4+: 70% of base rate
-        }
+        // Early years depreciate faster, later years slower (see `findBestCurve`)
+        const shape = curveSource.ageShape;
+        let yearlyRate = baseRate * shape[Math.min(Math.max(0, ageAtThisPoint), shape.length - 1)];
 
         // Ensure rate stays within reasonable bounds (3% to 35%)
         yearlyRate = Math.max(0.03, Math.min(0.35, yearlyRate));
 
-        residual *= (1 - yearlyRate);
+        // Value falls at a steady monthly rate within the year
+        const monthsThisYear = Math.min(12, months - i * 12);
+        residual *= Math.pow(1 - yearlyRate, monthsThisYear / 12);
     }
 
+    residual *= calculateMileageAdjustment(car, Math.max(0, carAge), ownershipYears, curveSource.mileageElasticity, dataset, options);
+
     return Math.max(0.05, residual); // Minimum 5% residual value
 }
 
+/**
+ * Value multiplier for mileage over the term, relative to a car covering the reference mileage.
+ * Only the change in "excess miles" (miles above reference × age) during ownership counts:
+ * the purchase price already reflects the odometer today. Excess is capped, so a car that is
+ * already very high mileage loses less for each further mile.
+ */
+export function calculateMileageAdjustment(
+    car: Car,
+    carAge: number,
+    ownershipYears: number,
+    elasticity: number,
+    dataset: DepreciationCurves,
+    options: ResidualOptions = {}
+): number {
+    const reference = dataset.referenceAnnualMileage ?? DEFAULT_ANNUAL_MILEAGE;
+    const currentMileage = options.currentMileage ?? car.currentMileage;
+    const annualMileage = annualMileageFor(car, carAge, dataset, options);
+
+    // Unknown odometer: assume a typical history, so only the miles driven during ownership count
+    const startMileage = currentMileage ?? reference * carAge;
+    const endMileage = startMileage + annualMileage * ownershipYears;
+
+    const excess = (miles: number, age: number) =>
+        Math.max(-MAX_MILEAGE_DEVIATION, Math.min(MAX_MILEAGE_DEVIATION, miles - reference * age));
+    const extraMiles = excess(endMileage, carAge + ownershipYears) - excess(startMileage, carAge);
+
+    return Math.exp((elasticity * extraMiles) / 1000);
+}
+
+// Expected miles per year: given, MOT-derived, implied by the odometer, or the dataset reference
+function annualMileageFor(car: Car, carAge: number, dataset: DepreciationCurves, options: ResidualOptions): number {
+    const currentMileage = options.currentMileage ?? car.currentMileage;
+    return options.annualMileage
+        ?? car.annualMileage
+        ?? (currentMileage !== undefined && carAge >= 1
+            ? currentMileage / carAge
+            : dataset.referenceAnnualMileage ?? DEFAULT_ANNUAL_MILEAGE);
+}
+
+/**
+ * The annual mileage the residual values assume for a car (see `ResidualOptions.annualMileage`),
+ * for reporting alongside them
+ */
+export function resolveAnnualMileage(car: Car, options: ResidualOptions = {}): number {
+    const dataset = options.dataset ?? getProviderForCar(car).depreciationCurves;
+    const carAge = Math.max(0, (options.asOf ?? new Date()).getFullYear() - car.yearOfManufacture);
+    return annualMileageFor(car, carAge, dataset, options);
+}
+
 /**
  * Calculate depreciation amount (purchase price - resale value)
  */
 export function calculateDepreciation(
     purchasePrice: number,
     car: Car,
-    years: number
+    years: number,
+    options: ResidualOptions = {}
 ): number {
-    const residualFactor = calculateResidualFactor(car, years);
+    const residualFactor = calculateResidualFactor(car, years, options);
     const resaleValue = purchasePrice * residualFactor;
     return Math.max(0, purchasePrice - resaleValue);
 }
@@ -166,28 +378,57 @@ export function calculateDepreciation(
 export function calculateResaleValue(
     purchasePrice: number,
     car: Car,
-    years: number
+    years: number,
+    options: ResidualOptions = {}
 ): number {
-    const residualFactor = calculateResidualFactor(car, years);
+    const residualFactor = calculateResidualFactor(car, years, options);
     return Math.round(purchasePrice * residualFactor);
 }
 
 /**
- * Get curve source info for UI display
+ * Low, central and high resale values (see `calculateResidualRange`)
+ */
+export function calculateResaleRange(
+    purchasePrice: number,
+    car: Car,
+    years: number,
+    options: ResidualOptions = {}
+): ValueRange {
+    const { low, central, high } = calculateResidualRange(car, years, options);
+    return {
+        low: Math.round(purchasePrice * low),
+        central: Math.round(purchasePrice * central),
+        high: Math.round(purchasePrice * high)
+    };
+}
+
+/**
+ * Get curve source info for UI display, from `dataset` (default: the car's country curves)
  */
-export function getCurveSource(car: Car): CurveSource {
-    const isSpecial = isSpecialVariant(car);
-    return findBestCurve(car.make, car.model, car.fuelType, isSpecial);
+export function getCurveSource(car: Car, dataset?: DepreciationCurves): CurveSource {
+    return findBestCurve(car.make, car.model, car.fuelType, matchSpecialVariant(car), dataset ?? getProviderForCar(car).depreciationCurves);
 }
 
 /**
  * Format curve source for human-readable display
  */
 export function formatCurveSource(source: CurveSource): string {
-    const parts = source.key.split('|');
+    const baseStr = describeCurve(source.level, source.key);
+    return source.specialVariant ? `${baseStr} (+ ${source.specialVariant.label} modifier)` : baseStr;
+}
+
+/**
+ * Explain why a more specific curve wasn't used, e.g. `Bmw (electric): rate 24.8% outside 2.0%-40.0%`
+ */
+export function formatSkippedCurve(skipped: SkippedCurve): string {
+    return `${describeCurve(skipped.level, skipped.key)}: ${skipped.reason}`;
+}
+
+function describeCurve(level: CurveSource['level'], key: string): string {
+    const parts = key.split('|');
     let baseStr = '';
 
-    switch (source.level) {
+    switch (level) {
         case 'make|fuel':
             baseStr = `${capitalise(parts[0])} (${parts[1]})`;
             break;
@@ -202,7 +443,20 @@ export function formatCurveSource(source: CurveSource): string {
             break;
     }
 
-    return source.appliedSpecialModifier ? `${baseStr} (+ Special Variant Modifier)` : baseStr;
+    return baseStr;
+}
+
+/**
+ * Explain the special variant modifier for display, e.g.
+ * `Ford ST ("ST" in the model name): rate × 0.76 (average for Ford special variants)`
+ */
+export function formatSpecialVariant(special: AppliedSpecialVariant, make: string): string {
+    const basis = {
+        rule: `fitted to ${special.label} listings`,
+        make: `average for ${capitalise(make.toLowerCase())} special variants`,
+        global: 'average for all special variants'
+    }[special.modifierSource];
+    return `${describeSpecialVariant(special)}: rate × ${special.modifier.toFixed(2)} (${basis})`;
 }
 
 function capitalise(str: string): string {
@@ -1,30 +1,80 @@
 import type { Car } from './carService';
+import { NEGATIVE_TTL_SECONDS, POSITIVE_TTL_SECONDS, isFresh, readCache, writeCache, type LookupCache } from './lookupCache';
+import { isUpstreamFailure, lookupFailure, type VehicleLookupResult } from './lookupResult';
 
 const DVLA_API_URL = 'https://driver-vehicle-licensing.api.gov.uk/vehicle-enquiry/v1/vehicles';
 
+// Placeholder model for DVLA vehicles until the user confirms one (see vehicleEnrichment.ts)
+export const UNKNOWN_MODEL = "Unknown Model";
+
 interface DvlaResponse {
     registrationNumber: string;
     make: string;
     yearOfManufacture: number;
+    monthOfFirstRegistration?: string; // YYYY-MM
     fuelType: string;
     co2Emissions: number;
+    engineCapacity?: number;
     colour: string;
     // DVLA API doesn't provide model directly in a clean way, usually just 'make' and technical details.
     // Sometimes it's not even present as a clean model name.
     // We will map what we can.
 }
 
-export async function fetchVehicleDetails(registration: string, apiKey?: string): Promise<Car | null> {
+/**
+ * Fetch vehicle details from the DVLA Vehicle Enquiry API.
+ *
+ * When a cache is supplied, fresh entries (including cached 404s) are returned without
+ * calling DVLA, and a stale entry is served if DVLA is rate limiting, erroring or unreachable.
+ *
+ * @param {string} registration - Normalised registration (no spaces, uppercase).
+ * @param {string} [apiKey] - DVLA API key. Falls back to `DVLA_API_KEY` from the environment.
+ * @param {LookupCache} [cache] - Optional cache backend (see `lookupCache.ts`).
+ * @returns {Promise<VehicleLookupResult>} The mapped Car, or the reason the lookup failed.
+ */
+export async function fetchVehicleDetails(registration: string, apiKey?: string, cache?: LookupCache): Promise<VehicleLookupResult> {
+    const cacheKey = `dvla:${registration}`;
+    const cached = cache ? await readCache<Car>(cache, cacheKey) : null;
+
+    if (cached && isFresh(cached)) {
+        return cached.value
+            ? { ok: true, car: cached.value, source: 'cache' }
+            : lookupFailure({ kind: 'not-found' });
+    }
+
+    const result = await requestVehicleDetails(registration, apiKey);
+
+    if (result.ok) {
+        if (cache) await writeCache(cache, cacheKey, result.car, POSITIVE_TTL_SECONDS);
+        return result;
+    }
+
+    if (result.error.kind === 'not-found') {
+        if (cache) await writeCache(cache, cacheKey, null, NEGATIVE_TTL_SECONDS);
+        return result;
+    }
+
+    // DVLA is unavailable: better a stale answer than none
+    if (isUpstreamFailure(result.error) && cached?.value) {
+        console.log(`Serving stale DVLA data for ${registration} (cached ${new Date(cached.storedAt).toISOString()})`);
+        return { ok: true, car: cached.value, source: 'stale-cache' };
+    }
+
+    return result;
+}
+
+async function requestVehicleDetails(registration: string, apiKey?: string): Promise<VehicleLookupResult> {
     // If no key passed, try environment (logic moved to caller largely, but keep fallback)
     const effectiveKey = apiKey || import.meta.env.DVLA_API_KEY;
 
     if (!effectiveKey) {
         console.error("DVLA_API_KEY is not set.");
-        return null;
+        return lookupFailure({ kind: 'missing-api-key' });
     }
 
+    let response: Response;
     try {
-        const response = await fetch(DVLA_API_URL, {
+        response = await fetch(DVLA_API_URL, {
             method: 'POST',
             headers: {
                 'x-api-key': effectiveKey,
@@ -34,37 +84,59 @@ export async function fetchVehicleDetails(registration: string, apiKey?: string)
                 registrationNumber: registration
             })
         });
+    } catch (error) {
+        console.error("Error fetching vehicle details:", error);
+        return lookupFailure({ kind: 'network-error' });
+    }
 
-        if (response.status === 404) {
-            return null; // Car not found
-        }
+    if (response.status === 404) {
+        return lookupFailure({ kind: 'not-found' }); // Car not found
+    }
 
-        if (!response.ok) {
-            console.error(`DVLA API Error: ${response.status} ${response.statusText}`);
-            return null;
-        }
+    if (response.status === 429) {
+        console.error("DVLA API rate limit reached");
+        const retryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10);
+        return lookupFailure({ kind: 'rate-limited', retryAfterSeconds: isNaN(retryAfter) ? undefined : retryAfter });
+    }
+
+    if (!response.ok) {
+        console.error(`DVLA API Error: ${response.status} ${response.statusText}`);
+        return lookupFailure({ kind: 'upstream-error', status: response.status });
+    }
+
+    let data: DvlaResponse;
+    try {
+        data = await response.json();
+    } catch (error) {
+        console.error("DVLA API returned invalid JSON:", error);
+        return lookupFailure({ kind: 'malformed-response' });
+    }
 
-        const data = await response.json();
+    if (!data || typeof data.registrationNumber !== 'string' || typeof data.make !== 'string') {
+        console.error("DVLA API response is missing registrationNumber/make");
+        return lookupFailure({ kind: 'malformed-response' });
+    }
 
-        // Map DVLA data to our Car interface
-        // Note: DVLA does NOT provide price or explicit model families (e.g. "Golf"), 
-        // often just returning the make or a generic description.
-        // We will do our best to map it.
+    // Map DVLA data to our Car interface
+    // Note: DVLA does NOT provide price or explicit model families (e.g. "Golf"), 
+    // often just returning the make or a generic description.
+    // We will do our best to map it.
 
-        return {
+    return {
+        ok: true,
+        source: 'dvla',
+        car: {
             registration: data.registrationNumber,
             make: data.make,
-            model: "Unknown Model", // Placeholder as DVLA doesn't give a marketing model name usually
+            model: UNKNOWN_MODEL, // Placeholder as DVLA doesn't give a marketing model name usually
             yearOfManufacture: data.yearOfManufacture,
+            dateOfFirstRegistration: data.monthOfFirstRegistration || undefined,
             fuelType: data.fuelType || "Unknown",
             co2Emissions: data.co2Emissions || 0,
+            engineCapacity: data.engineCapacity || undefined,
             colour: data.colour || "Unknown",
             basicPrice: 0, // Not provided by DVLA
             originalListPrice: 0 // Not provided by DVLA
-        };
-
-    } catch (error) {
-        console.error("Error fetching vehicle details:", error);
-        return null;
-    }
+        }
+    };
 }
@@ -0,0 +1,137 @@
+import type { Car } from './carService';
+import { monthsByOwnershipYear, unusedMonthsRefund, type VEDYear } from './taxCalculator';
+
+/**
+ * Irish Motor Tax Calculator
+ * Annual motor tax for private cars in the Republic of Ireland (approximate 2024 rates):
+ * - Registered 2021+: WLTP CO₂ bands
+ * - Registered 2008-2020: NEDC CO₂ bands
+ * - Registered before 2008: engine capacity bands
+ *
+ * Unlike UK VED there is no separate first-year rate or expensive car supplement
+ * (VRT is a one-off charge at registration and isn't part of ownership cost).
+ */
+
+// WLTP CO₂ bands (cars registered from January 2021)
+const WLTP_RATES: [number, number][] = [
+    [50, 120],
+    [80, 140],
+    [100, 155],
+    [110, 165],
+    [120, 170],
+    [130, 180],
+    [140, 190],
+    [155, 200],
+    [170, 270],
+    [190, 600],
+    [225, 1200],
+    [Infinity, 2400],
+];
+
+// NEDC CO₂ bands A0-G (cars registered July 2008 - December 2020)
+const NEDC_RATES: [number, number][] = [
+    [0, 120],
+    [80, 170],
+    [100, 180],
+    [110, 190],
+    [120, 200],
+    [130, 270],
+    [140, 280],
+    [155, 390],
+    [170, 570],
+    [190, 750],
+    [225, 1200],
+    [Infinity, 2400],
+];
+
+// Engine capacity bands in cc (cars registered before July 2008)
+const ENGINE_RATES: [number, number][] = [
+    [1000, 199],
+    [1100, 299],
+    [1200, 330],
+    [1300, 358],
+    [1400, 385],
+    [1500, 413],
+    [1600, 514],
+    [1700, 544],
+    [1800, 636],
+    [1900, 673],
+    [2000, 710],
+    [2100, 1054],
+    [2200, 1100],
+    [2300, 1145],
+    [2400, 1189],
+    [2500, 1234],
+    [2600, 1527],
+    [2700, 1583],
+    [2800, 1639],
+    [2900, 1695],
+    [3000, 1750],
+    [Infinity, 1809],
+];
+
+const WLTP_FROM_YEAR = 2021;
+const CO2_BANDS_FROM_YEAR = 2008;
+
+function getRateFromTable(value: number, table: [number, number][]): number {
+    for (const [threshold, rate] of table) {
+        if (value <= threshold) return rate;
+    }
+    return table[table.length - 1][1];
+}
+
+/**
+ * Annual motor tax for a car (the same every year of ownership)
+ */
+export function getAnnualMotorTax(car: Car): number {
+    if (car.fuelType.toUpperCase() === 'ELECTRIC') {
+        return WLTP_RATES[0][1];
+    }
+
+    if (car.yearOfManufacture >= WLTP_FROM_YEAR) {
+        return getRateFromTable(car.co2Emissions, WLTP_RATES);
+    }
+
+    // Older cars without a known engine size fall back to the CO₂ bands
+    if (car.yearOfManufacture >= CO2_BANDS_FROM_YEAR || !car.engineCapacity) {
+        return getRateFromTable(car.co2Emissions, NEDC_RATES);
+    }
+
+    return getRateFromTable(car.engineCapacity, ENGINE_RATES);
+}
+
+/**
+ * Which bands `getAnnualMotorTax` uses for a car, as shown on the vehicle card
+ */
+export function describeMotorTaxRegime(car: Car): string {
+    if (car.fuelType.toUpperCase() === 'ELECTRIC') return 'Lowest band (electric)';
+    if (car.yearOfManufacture >= WLTP_FROM_YEAR) return `WLTP CO₂ bands (${WLTP_FROM_YEAR} on)`;
+    if (car.yearOfManufacture >= CO2_BANDS_FROM_YEAR) return `NEDC CO₂ bands (${CO2_BANDS_FROM_YEAR} – ${WLTP_FROM_YEAR - 1})`;
+    if (!car.engineCapacity) return `NEDC CO₂ bands (engine size unknown)`;
+    return `Engine size (pre-${CO2_BANDS_FROM_YEAR})`;
+}
+
+/**
+ * Calculate the year-by-year motor tax for a given ownership period (may be fractional).
+ * Uses the same shape as the UK VED breakdown (`supplement` is always 0). Irish tax stays
+ * with the car when it's sold, so unused months are recovered in the sale price rather than
+ * refunded; they're reported as `refund` so part years compare like for like with GB.
+ */
+export function calculateMotorTaxBreakdown(car: Car, ownershipYears: number, asOf: Date = new Date()): VEDYear[] {
+    const currentYear = asOf.getFullYear();
+    const vehicleAgeAtPurchase = Math.max(1, (currentYear - car.yearOfManufacture) + 1);
+    const rate = getAnnualMotorTax(car);
+
+    return monthsByOwnershipYear(ownershipYears).map((months, i) => {
+        const refund = unusedMonthsRefund(rate, months);
+        return {
+            ownershipYear: i + 1,
+            vehicleAge: vehicleAgeAtPurchase + i,
+            months,
+            rate,
+            supplement: 0,
+            refund,
+            total: rate - refund
+        };
+    });
+}
@@ -0,0 +1,87 @@
+/**
+ * Irish Registration Plate Parser
+ * Recognises the plates issued in the Republic of Ireland since 1987:
+ * - 2013+: 191-D-12345 — year, half-year digit (1 = Jan-Jun, 2 = Jul-Dec), county code, sequence
+ * - 1987-2012: 05-D-12345 — year, county code, sequence
+ *
+ * Spacing and hyphens are ignored, so "191 D 12345" and "191D12345" are both accepted.
+ */
+
+export interface ParsedIrishPlate {
+    normalised: string;     // Uppercase, no spaces or hyphens (e.g. "191D12345")
+    display: string;        // Conventional hyphenation (e.g. "191-D-12345")
+    year: number;           // Year of first registration
+    halfYear: 1 | 2 | null; // null before 2013
+    county: string;
+}
+
+export type IrishPlateParseResult =
+    | { valid: true; plate: ParsedIrishPlate }
+    | { valid: false; normalised: string; reason: string };
+
+// Current codes plus the city/county codes retired in 2014 (LK, TN, TS, WD)
+const COUNTY_CODES = [
+    'C', 'CE', 'CN', 'CW', 'D', 'DL', 'G', 'KE', 'KK', 'KY', 'L', 'LD', 'LH', 'LM', 'LS',
+    'MH', 'MN', 'MO', 'OY', 'RN', 'SO', 'T', 'W', 'WH', 'WX', 'WW',
+    'LK', 'TN', 'TS', 'WD'
+];
+
+const FIRST_YEAR = 1987;
+const HALF_YEAR_FROM = 2013; // The half-year digit was introduced in 2013
+
+const PLATE_PATTERN = /^(\d{2})([12]?)([A-Z]{1,2})(\d{1,6})$/;
+
+/**
+ * Strip whitespace and hyphens and uppercase a plate for lookups
+ */
+export function normaliseIrishPlate(registration: string): string {
+    return registration.replace(/[\s-]/g, '').toUpperCase();
+}
+
+/**
+ * Parse and validate an Irish registration plate.
+ *
+ * @param {string} registration - The plate as typed by the user.
+ * @param {Date} [asOf] - Date used to reject plates that haven't been issued yet. Defaults to now.
+ * @returns {IrishPlateParseResult} The decoded plate, or the reason it was rejected.
+ */
+export function parseIrishPlate(registration: string, asOf: Date = new Date()): IrishPlateParseResult {
+    const normalised = normaliseIrishPlate(registration);
+
+    const match = normalised.match(PLATE_PATTERN);
+    if (!match) {
+        return { valid: false, normalised, reason: 'This does not look like an Irish registration' };
+    }
+
+    const [, yearDigits, halfDigit, county, sequence] = match;
+    const twoDigitYear = parseInt(yearDigits, 10);
+    const year = twoDigitYear >= FIRST_YEAR - 1900 ? 1900 + twoDigitYear : 2000 + twoDigitYear;
+
+    if (year >= HALF_YEAR_FROM && !halfDigit) {
+        return { valid: false, normalised, reason: `${year} plates start with a half-year digit (e.g. "${yearDigits}1")` };
+    }
+    if (year < HALF_YEAR_FROM && halfDigit) {
+        return { valid: false, normalised, reason: `${year} plates do not have a half-year digit` };
+    }
+
+    const halfYear = halfDigit ? (parseInt(halfDigit, 10) as 1 | 2) : null;
+    const issuedFromMonth = halfYear === 2 ? 7 : 1;
+    if (year > asOf.getFullYear() || (year === asOf.getFullYear() && issuedFromMonth > asOf.getMonth() + 1)) {
+        return { valid: false, normalised, reason: `"${yearDigits}${halfDigit}" plates have not been issued yet` };
+    }
+
+    if (!COUNTY_CODES.includes(county)) {
+        return { valid: false, normalised, reason: `"${county}" is not an Irish county code` };
+    }
+
+    return {
+        valid: true,
+        plate: {
+            normalised,
+            display: `${yearDigits}${halfDigit}-${county}-${sequence}`,
+            year,
+            halfYear,
+            county
+        }
+    };
+}
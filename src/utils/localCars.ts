@@ -0,0 +1,10 @@
+import carsData from '../data/cars.json';
+import type { Car } from './carService';
+import { CarListSchema, parseDataset } from './dataSchemas';
+
+/**
+ * The local vehicle database, validated on load (see `dataSchemas.ts`). Kept out of
+ * `carService.ts` so client code searching it (model proposals in `ModelPicker.astro`)
+ * doesn't bundle the DVLA lookup.
+ */
+export const localCars: Car[] = parseDataset(CarListSchema, carsData, 'cars.json');
@@ -0,0 +1,125 @@
+/**
+ * Lookup Cache
+ * Pluggable cache for external lookups (DVLA vehicle enquiries, DVSA MOT history) so popular
+ * plates don't burn API quota.
+ * - Entries carry their own `expiresAt`; backends keep them for longer (`STALE_RETENTION_SECONDS`)
+ *   so a stale copy can still be served while the upstream API is unavailable.
+ * - A `null` value is a negative entry (e.g. a 404 from DVLA) and uses a shorter TTL.
+ *
+ * Backends:
+ * - Cloudflare KV (bind a namespace as `DVLA_CACHE` in wrangler.toml)
+ * - In-memory (local dev, tests, or when no KV namespace is bound). Per-isolate only.
+ */
+
+export interface CacheEntry<T> {
+    value: T | null;   // null = negative entry (known not to exist)
+    storedAt: number;  // Epoch ms
+    expiresAt: number; // Epoch ms; after this the entry is stale
+}
+
+export interface LookupCache {
+    get<T>(key: string): Promise<CacheEntry<T> | null>;
+    put<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+}
+
+/**
+ * The subset of the Cloudflare `KVNamespace` binding used by the KV backend
+ */
+export interface KVNamespaceLike {
+    get(key: string, type: 'json'): Promise<unknown>;
+    put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+export const POSITIVE_TTL_SECONDS = 7 * 24 * 60 * 60;  // Vehicle details rarely change
+export const NEGATIVE_TTL_SECONDS = 60 * 60;           // Plates may be newly registered
+export const STALE_RETENTION_SECONDS = 30 * 24 * 60 * 60;
+
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Build a cache entry that expires after `ttlSeconds`
+ */
+export function createEntry<T>(value: T | null, ttlSeconds: number, now: number = Date.now()): CacheEntry<T> {
+    return { value, storedAt: now, expiresAt: now + ttlSeconds * 1000 };
+}
+
+export function isFresh(entry: CacheEntry<unknown>, now: number = Date.now()): boolean {
+    return now < entry.expiresAt;
+}
+
+/**
+ * In-memory backend. Evicts the oldest entry once `maxEntries` is reached.
+ */
+export function createMemoryCache(maxEntries: number = MEMORY_CACHE_MAX_ENTRIES): LookupCache {
+    const entries = new Map<string, CacheEntry<unknown>>();
+
+    return {
+        async get<T>(key: string) {
+            const entry = entries.get(key);
+            if (!entry) return null;
+
+            if (Date.now() > entry.expiresAt + STALE_RETENTION_SECONDS * 1000) {
+                entries.delete(key);
+                return null;
+            }
+            return entry as CacheEntry<T>;
+        },
+        async put<T>(key: string, entry: CacheEntry<T>) {
+            entries.delete(key);
+            if (entries.size >= maxEntries) {
+                const oldestKey = entries.keys().next().value;
+                if (oldestKey !== undefined) entries.delete(oldestKey);
+            }
+            entries.set(key, entry);
+        }
+    };
+}
+
+/**
+ * Cloudflare KV backend. KV expiry is set past `expiresAt` so stale entries survive outages.
+ */
+export function createKVCache(namespace: KVNamespaceLike, keyPrefix: string = 'lookup:'): LookupCache {
+    return {
+        async get<T>(key: string) {
+            const entry = await namespace.get(keyPrefix + key, 'json');
+            return (entry as CacheEntry<T> | null) ?? null;
+        },
+        async put<T>(key: string, entry: CacheEntry<T>) {
+            const ttlSeconds = Math.ceil((entry.expiresAt - Date.now()) / 1000) + STALE_RETENTION_SECONDS;
+            await namespace.put(keyPrefix + key, JSON.stringify(entry), { expirationTtl: ttlSeconds });
+        }
+    };
+}
+
+/**
+ * Read an entry, treating cache failures as a miss (a broken cache must never break a lookup)
+ */
+export async function readCache<T>(cache: LookupCache, key: string): Promise<CacheEntry<T> | null> {
+    try {
+        return await cache.get<T>(key);
+    } catch (error) {
+        console.error("Error reading lookup cache:", error);
+        return null;
+    }
+}
+
+/**
+ * Write an entry that expires after `ttlSeconds`, logging (not throwing) on failure
+ */
+export async function writeCache<T>(cache: LookupCache, key: string, value: T | null, ttlSeconds: number): Promise<void> {
+    try {
+        await cache.put(key, createEntry(value, ttlSeconds));
+    } catch (error) {
+        console.error("Error writing lookup cache:", error);
+    }
+}
+
+// Shared per-isolate fallback so repeat views within a worker still hit the cache
+const sharedMemoryCache = createMemoryCache();
+
+/**
+ * Pick the cache backend for the current runtime: KV when bound, otherwise in-memory
+ */
+export function resolveLookupCache(namespace?: KVNamespaceLike): LookupCache {
+    return namespace ? createKVCache(namespace) : sharedMemoryCache;
+}
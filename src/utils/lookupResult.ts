@@ -0,0 +1,107 @@
+import type { Car } from './carService';
+import type { CountryProvider } from './countries';
+
+/**
+ * Vehicle Lookup Results
+ * Discriminated result type for registration lookups so callers can tell
+ * "plate not found" apart from "DVLA is busy" and respond accordingly.
+ */
+
+export type VehicleLookupError =
+    | { kind: 'invalid-plate'; reason: string }
+    | { kind: 'missing-api-key' }
+    | { kind: 'not-found' }
+    | { kind: 'rate-limited'; retryAfterSeconds?: number }
+    | { kind: 'upstream-error'; status: number }
+    | { kind: 'network-error' }
+    | { kind: 'malformed-response' };
+
+export type VehicleSource = 'local' | 'dvla' | 'cache' | 'stale-cache';
+
+export type VehicleLookupResult =
+    | { ok: true; car: Car; source: VehicleSource }
+    | { ok: false; error: VehicleLookupError };
+
+export interface LookupErrorMessage {
+    title: string;
+    message: string;
+    retryable: boolean; // Worth trying the same plate again shortly
+}
+
+export function lookupFailure(error: VehicleLookupError): VehicleLookupResult {
+    return { ok: false, error };
+}
+
+/**
+ * Errors caused by the upstream register (e.g. DVLA) being unavailable (rather than by the plate itself)
+ */
+export function isUpstreamFailure(error: VehicleLookupError): boolean {
+    return error.kind === 'rate-limited'
+        || error.kind === 'upstream-error'
+        || error.kind === 'network-error'
+        || error.kind === 'malformed-response';
+}
+
+/**
+ * HTTP status for a failed lookup (used by the analyse page and API routes)
+ */
+export function lookupErrorStatus(error: VehicleLookupError): number {
+    switch (error.kind) {
+        case 'invalid-plate':
+            return 400;
+        case 'not-found':
+            return 404;
+        case 'rate-limited':
+            return 429;
+        case 'missing-api-key':
+        case 'network-error':
+            return 503;
+        case 'upstream-error':
+        case 'malformed-response':
+            return 502;
+    }
+}
+
+/**
+ * User-facing copy for a failed lookup. Defaults to UK/DVLA wording when no provider is given.
+ */
+export function describeLookupError(
+    error: VehicleLookupError,
+    provider: Pick<CountryProvider, 'adjective' | 'registryName'> = { adjective: 'UK', registryName: 'DVLA' }
+): LookupErrorMessage {
+    const { adjective, registryName } = provider;
+    switch (error.kind) {
+        case 'invalid-plate':
+            return {
+                title: 'Invalid Registration',
+                message: `That doesn't look like a valid ${adjective} registration plate (${error.reason.toLowerCase()}). Please check it and try again.`,
+                retryable: false
+            };
+        case 'not-found':
+            return {
+                title: 'Vehicle Not Found',
+                message: `We couldn't find any details for this registration plate in the ${registryName} database. Please check the registration and try again.`,
+                retryable: false
+            };
+        case 'rate-limited':
+            return {
+                title: 'Service Busy',
+                message: `The ${registryName} lookup service is handling a lot of requests right now. Please wait a moment and retry.`,
+                retryable: true
+            };
+        case 'missing-api-key':
+            return {
+                title: 'Lookup Unavailable',
+                message: "Vehicle lookups aren't configured on this server, so only vehicles in our local database can be analysed.",
+                retryable: false
+            };
+        case 'network-error':
+        case 'upstream-error':
+        case 'malformed-response':
+            return {
+                title: `${registryName} Unavailable`,
+                message: `We couldn't reach the ${registryName} vehicle database just now. This is usually temporary — please retry in a few minutes.`,
+                retryable: true
+            };
+    }
+}
@@ -0,0 +1,135 @@
+import type { Car } from './carService';
+import { calculateResidualFactor, type DepreciationCurves } from './depreciationCalculator';
+
+/**
+ * Manual Vehicle Entry
+ * Builds a `Car` from a hand-entered specification, for vehicles that can't be resolved
+ * by registration (no plate yet, imports, or a failed lookup). The result feeds the same
+ * `car-loaded` flow as a looked-up vehicle.
+ */
+
+export const MANUAL_FUEL_TYPES = [
+    'Petrol',
+    'Diesel',
+    'Electric',
+    'Petrol hybrid',
+    'Petrol plug-in hybrid',
+    'Diesel hybrid',
+] as const;
+
+export const MANUAL_REGISTRATION = 'MANUAL ENTRY'; // Shown in place of a plate when none was given
+
+const MAX_PRICE = 10000000;
+const MAX_CO2 = 1000;
+const MAX_ENGINE_CC = 10000;
+const ENGINE_TAXED_BEFORE_YEAR = 2001; // Older cars are taxed on engine size and often have no CO₂ figure
+const FIRST_YEAR = 1900;
+
+/**
+ * Raw form values (strings, as read from the inputs)
+ */
+export interface ManualVehicleInput {
+    make: string;
+    model: string;
+    yearOfManufacture: string;
+    fuelType: string;
+    co2Emissions: string;     // May be blank for electric cars and cars built before 2001
+    engineCapacity?: string;  // cc; optional (used for older cars' tax)
+    originalListPrice: string;
+    purchasePrice: string;    // Blank = estimate from the list price and age
+    registration?: string;
+    country?: string;
+}
+
+export type ManualVehicleField = Exclude<keyof ManualVehicleInput, 'registration' | 'country'>;
+
+export type ManualVehicleResult =
+    | { valid: true; car: Car }
+    | { valid: false; errors: Partial<Record<ManualVehicleField, string>> };
+
+/**
+ * Validate a manual specification and build a Car from it.
+ *
+ * @param {ManualVehicleInput} input - Form values.
+ * @param {Date} [asOf] - Date used for the latest allowed year and the purchase price estimate. Defaults to now.
+ * @param {DepreciationCurves} [dataset] - Curves for the purchase price estimate. Defaults to the country's.
+ * @returns {ManualVehicleResult} The Car, or an error message per invalid field.
+ */
+export function buildManualCar(
+    input: ManualVehicleInput,
+    asOf: Date = new Date(),
+    dataset?: DepreciationCurves
+): ManualVehicleResult {
+    const errors: Partial<Record<ManualVehicleField, string>> = {};
+
+    const make = input.make.trim();
+    const model = input.model.trim();
+    if (!make) errors.make = 'Enter the make';
+    if (!model) errors.model = 'Enter the model';
+
+    const year = parseWholeNumber(input.yearOfManufacture);
+    const latestYear = asOf.getFullYear() + 1; // Next year's models are on sale before January
+    if (year === null || year < FIRST_YEAR || year > latestYear) {
+        errors.yearOfManufacture = `Enter a year between ${FIRST_YEAR} and ${latestYear}`;
+    }
+
+    const fuelType = MANUAL_FUEL_TYPES.find(f => f === input.fuelType);
+    if (!fuelType) errors.fuelType = 'Choose a fuel type';
+
+    const isElectric = fuelType === 'Electric';
+    let co2 = parseWholeNumber(input.co2Emissions);
+    const taxedOnEngineSize = year !== null && year < ENGINE_TAXED_BEFORE_YEAR;
+    if (co2 === null && (isElectric || taxedOnEngineSize)) co2 = 0;
+    if (co2 === null || co2 < 0 || co2 > MAX_CO2) {
+        errors.co2Emissions = `Enter CO₂ emissions between 0 and ${MAX_CO2} g/km`;
+    }
+
+    const engineCapacity = parseWholeNumber(input.engineCapacity ?? '');
+    if (input.engineCapacity?.trim() && (engineCapacity === null || engineCapacity <= 0 || engineCapacity > MAX_ENGINE_CC)) {
+        errors.engineCapacity = 'Enter the engine size in cc, or leave it blank';
+    }
+
+    const listPrice = parseWholeNumber(input.originalListPrice);
+    if (listPrice === null || listPrice <= 0 || listPrice > MAX_PRICE) {
+        errors.originalListPrice = 'Enter the list price when new';
+    }
+
+    let purchasePrice = parseWholeNumber(input.purchasePrice);
+    if (input.purchasePrice.trim() && (purchasePrice === null || purchasePrice < 0 || purchasePrice > MAX_PRICE)) {
+        errors.purchasePrice = 'Enter a purchase price, or leave it blank to estimate one';
+    }
+
+    if (Object.keys(errors).length > 0) {
+        return { valid: false, errors };
+    }
+
+    const car: Car = {
+        registration: input.registration?.trim().toUpperCase() || MANUAL_REGISTRATION,
+        make,
+        model,
+        yearOfManufacture: year!,
+        fuelType: fuelType!,
+        co2Emissions: co2!,
+        colour: 'Unknown',
+        basicPrice: 0,
+        originalListPrice: listPrice!,
+        engineCapacity: engineCapacity ?? undefined,
+        country: input.country
+    };
+
+    // No asking price: assume it's worth what our curve says a car of this age is worth
+    if (purchasePrice === null) {
+        const age = Math.max(0, asOf.getFullYear() - car.yearOfManufacture);
+        const newCar: Car = { ...car, yearOfManufacture: asOf.getFullYear() };
+        purchasePrice = Math.round((listPrice! * calculateResidualFactor(newCar, age, { asOf, dataset })) / 100) * 100;
+    }
+    car.basicPrice = purchasePrice;
+
+    return { valid: true, car };
+}
+
+function parseWholeNumber(value: string): number | null {
+    const trimmed = value.trim().replace(/,/g, '');
+    if (!/^\d+$/.test(trimmed)) return null;
+    return parseInt(trimmed, 10);
+}
@@ -0,0 +1,18 @@
+import marketStatsData from '../data/market_stats.json';
+import { activeCurves } from './curveDatasets';
+import { MarketStatsSchema, parseDataset, type MarketStats } from './dataSchemas';
+
+/**
+ * Market Statistics
+ * Validated `market_stats.json` (UK listings summarised by make, model, fuel and year of
+ * manufacture; see `scripts/process_market_data.ts`). Import this rather than the raw JSON.
+ *
+ * It is built from the same adverts as the active curves dataset, so a car of age n in the
+ * market data is the model year `MARKET_SNAPSHOT_YEAR - n`.
+ */
+
+export type { MarketStats, MarketYear } from './dataSchemas';
+
+export const marketStats: MarketStats = parseDataset(MarketStatsSchema, marketStatsData, 'market_stats.json');
+
+export const MARKET_SNAPSHOT_YEAR = activeCurves.snapshotYear;
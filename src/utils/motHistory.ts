@@ -0,0 +1,335 @@
+import type { Car } from './carService';
+import motFixtures from '../data/mot_fixtures.json';
+import { NEGATIVE_TTL_SECONDS, isFresh, readCache, writeCache, type LookupCache } from './lookupCache';
+import { isUpstreamFailure, type VehicleLookupError } from './lookupResult';
+
+/**
+ * MOT History
+ * Client for the DVSA MOT History API (https://documentation.history.mot.api.gov.uk/),
+ * which returns every MOT test for a GB vehicle with its odometer reading, result and defects.
+ *
+ * The API needs OAuth client credentials plus an API key (`MOT_CLIENT_ID`, `MOT_CLIENT_SECRET`,
+ * `MOT_TOKEN_URL`, `MOT_API_KEY`). Without them, responses come from `src/data/mot_fixtures.json`
+ * (same shape as the real API) so the feature works offline and in local development.
+ *
+ * The mileage summary feeds `Car.currentMileage` / `Car.annualMileage` (see `applyMotMileage`).
+ */
+
+const MOT_API_URL = 'https://history.mot.api.gov.uk/v1/trade/vehicles/registration';
+const MOT_API_SCOPE = 'https://tapi.dvsa.gov.uk/.default';
+
+const MOT_TTL_SECONDS = 24 * 60 * 60;  // A new test can appear any day
+const KM_TO_MILES = 0.621371;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+const MIN_MILEAGE_SPAN_YEARS = 0.5;    // Shorter spans give wild annual estimates
+
+export type MotDefectType = 'ADVISORY' | 'MINOR' | 'MAJOR' | 'DANGEROUS' | 'FAIL' | 'PRS' | 'USER ENTERED';
+
+/**
+ * Test record as returned by the DVSA API
+ */
+interface DvsaMotTest {
+    completedDate: string;
+    testResult: 'PASSED' | 'FAILED';
+    expiryDate?: string;
+    odometerValue?: string;
+    odometerUnit?: 'MI' | 'KM' | null;
+    odometerResultType: 'READ' | 'UNREADABLE' | 'NO_ODOMETER';
+    motTestNumber: string;
+    defects?: { text: string; type: MotDefectType; dangerous?: boolean }[];
+}
+
+interface DvsaMotResponse {
+    registration: string;
+    make?: string;
+    model?: string;
+    firstUsedDate?: string;
+    motTestDueDate?: string; // Only for vehicles yet to have their first MOT
+    motTests?: DvsaMotTest[];
+}
+
+export interface MotApiCredentials {
+    apiKey: string;
+    clientId: string;
+    clientSecret: string;
+    tokenUrl: string;
+}
+
+export interface MotDefect {
+    text: string;
+    type: MotDefectType;
+    dangerous: boolean;
+}
+
+export interface MotTest {
+    date: string;           // ISO date the test was completed
+    passed: boolean;
+    expiryDate?: string;
+    mileage: number | null; // Miles (km readings converted); null if unreadable
+    testNumber: string;
+    defects: MotDefect[];
+}
+
+export interface MileageReading {
+    date: string;
+    miles: number;
+}
+
+export interface MileageSummary {
+    readings: MileageReading[];         // Oldest first
+    latest: MileageReading | null;
+    annual: number | null;              // Average miles per year over the recorded history
+    estimatedCurrent: number | null;    // Latest reading projected forward to the valuation date at the annual rate
+    discrepancy: boolean;               // A reading went backwards (clocking or a recording error)
+}
+
+export interface MotHistory {
+    registration: string;
+    firstUsedDate?: string;
+    firstTestDue?: string;  // Set for vehicles too new to have had an MOT
+    tests: MotTest[];       // Newest first, up to the valuation date
+    mileage: MileageSummary;
+}
+
+export type MotHistorySource = 'dvsa' | 'fixture' | 'cache' | 'stale-cache';
+
+export type MotHistoryResult =
+    | { ok: true; history: MotHistory; source: MotHistorySource }
+    | { ok: false; error: VehicleLookupError };
+
+/**
+ * Pick the MOT API credentials from environment-like sources (first defined value wins).
+ * Returns null unless all four values are set.
+ */
+export function resolveMotCredentials(...sources: ({ [key: string]: unknown } | undefined)[]): MotApiCredentials | null {
+    const read = (key: string) => {
+        for (const source of sources) {
+            const value = source?.[key];
+            if (typeof value === 'string' && value) return value;
+        }
+        return undefined;
+    };
+
+    const apiKey = read('MOT_API_KEY');
+    const clientId = read('MOT_CLIENT_ID');
+    const clientSecret = read('MOT_CLIENT_SECRET');
+    const tokenUrl = read('MOT_TOKEN_URL');
+
+    if (!apiKey || !clientId || !clientSecret || !tokenUrl) return null;
+    return { apiKey, clientId, clientSecret, tokenUrl };
+}
+
+/**
+ * Fetch the MOT history for a GB registration.
+ *
+ * @param {string} registration - Normalised registration (no spaces, uppercase).
+ * @param {MotApiCredentials | null} credentials - DVSA credentials, or null to use the local fixtures.
+ * @param {LookupCache} [cache] - Optional cache backend (see `lookupCache.ts`).
+ * @param {Date} [asOf] - Valuation date: later tests are left out and the mileage is estimated for it. Defaults to now.
+ * @returns {Promise<MotHistoryResult>} The normalised history, or the reason the lookup failed.
+ */
+export async function fetchMotHistory(
+    registration: string,
+    credentials: MotApiCredentials | null,
+    cache?: LookupCache,
+    asOf: Date = new Date()
+): Promise<MotHistoryResult> {
+    if (!credentials) {
+        const fixture = (motFixtures as { [registration: string]: DvsaMotResponse })[registration];
+        return fixture
+            ? { ok: true, history: historyAsOf(mapMotResponse(fixture), asOf), source: 'fixture' }
+            : { ok: false, error: { kind: 'not-found' } };
+    }
+
+    const cacheKey = `mot:${registration}`;
+    const cached = cache ? await readCache<MotHistory>(cache, cacheKey) : null;
+
+    if (cached && isFresh(cached)) {
+        return cached.value
+            ? { ok: true, history: historyAsOf(cached.value, asOf), source: 'cache' }
+            : { ok: false, error: { kind: 'not-found' } };
+    }
+
+    const result = await requestMotHistory(registration, credentials);
+
+    if (result.ok) {
+        if (cache) await writeCache(cache, cacheKey, result.history, MOT_TTL_SECONDS);
+        return { ...result, history: historyAsOf(result.history, asOf) };
+    }
+
+    if (result.error.kind === 'not-found') {
+        if (cache) await writeCache(cache, cacheKey, null, NEGATIVE_TTL_SECONDS);
+        return result;
+    }
+
+    if (isUpstreamFailure(result.error) && cached?.value) {
+        console.log(`Serving stale MOT history for ${registration} (cached ${new Date(cached.storedAt).toISOString()})`);
+        return { ok: true, history: historyAsOf(cached.value, asOf), source: 'stale-cache' };
+    }
+
+    return result;
+}
+
+/**
+ * Summarise recorded mileage: readings over time, average annual mileage and an estimate for `asOf` (default today).
+ * Readings taken after `asOf` are ignored.
+ */
+export function summariseMileage(tests: MotTest[], firstUsedDate?: string, asOf: Date = new Date()): MileageSummary {
+    const readings: MileageReading[] = tests
+        .filter(t => t.mileage !== null && Date.parse(t.date) <= asOf.getTime())
+        .map(t => ({ date: t.date, miles: t.mileage! }))
+        .sort((a, b) => Date.parse(a.date) - Date.parse(b.date));
+
+    const discrepancy = readings.some((r, i) => i > 0 && r.miles < readings[i - 1].miles);
+    const latest = readings.length > 0 ? readings[readings.length - 1] : null;
+
+    // Prefer the whole life of the car (0 miles at first use); otherwise the span between readings
+    let annual: number | null = null;
+    if (latest) {
+        const start = firstUsedDate
+            ? { date: firstUsedDate, miles: 0 }
+            : readings[0];
+        const years = (Date.parse(latest.date) - Date.parse(start.date)) / MS_PER_YEAR;
+        if (years >= MIN_MILEAGE_SPAN_YEARS && latest.miles >= start.miles) {
+            annual = Math.round((latest.miles - start.miles) / years);
+        }
+    }
+
+    let estimatedCurrent: number | null = latest?.miles ?? null;
+    if (latest && annual !== null) {
+        const yearsSince = Math.max(0, (asOf.getTime() - Date.parse(latest.date)) / MS_PER_YEAR);
+        estimatedCurrent = Math.round(latest.miles + annual * yearsSince);
+    }
+
+    return { readings, latest, annual, estimatedCurrent, discrepancy };
+}
+
+/**
+ * Copy the MOT-derived mileage onto a car (leaves it unchanged if nothing was recorded)
+ */
+export function applyMotMileage(car: Car, history: MotHistory): Car {
+    const { estimatedCurrent, annual } = history.mileage;
+    return {
+        ...car,
+        currentMileage: estimatedCurrent ?? car.currentMileage,
+        annualMileage: annual ?? car.annualMileage
+    };
+}
+
+/**
+ * Normalise a DVSA response (newest test first, mileage in miles)
+ */
+function mapMotResponse(data: DvsaMotResponse): MotHistory {
+    const tests: MotTest[] = (data.motTests ?? [])
+        .map(test => ({
+            date: test.completedDate,
+            passed: test.testResult === 'PASSED',
+            expiryDate: test.expiryDate,
+            mileage: readOdometer(test),
+            testNumber: test.motTestNumber,
+            defects: (test.defects ?? []).map(d => ({ text: d.text, type: d.type, dangerous: !!d.dangerous }))
+        }))
+        .sort((a, b) => Date.parse(b.date) - Date.parse(a.date));
+
+    return {
+        registration: data.registration,
+        firstUsedDate: data.firstUsedDate,
+        firstTestDue: data.motTestDueDate,
+        tests,
+        mileage: summariseMileage(tests, data.firstUsedDate)
+    };
+}
+
+// The history as it stood on `asOf`: later tests are dropped and the mileage estimated for that date.
+// The full history is what gets cached, so any valuation date can be served from it.
+function historyAsOf(history: MotHistory, asOf: Date): MotHistory {
+    const tests = history.tests.filter(t => Date.parse(t.date) <= asOf.getTime());
+    return { ...history, tests, mileage: summariseMileage(tests, history.firstUsedDate, asOf) };
+}
+
+function readOdometer(test: DvsaMotTest): number | null {
+    if (test.odometerResultType !== 'READ' || !test.odometerValue) return null;
+    const value = parseInt(test.odometerValue, 10);
+    if (isNaN(value)) return null;
+    return test.odometerUnit === 'KM' ? Math.round(value * KM_TO_MILES) : value;
+}
+
+// OAuth access tokens last an hour; reuse them within an isolate
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+async function getAccessToken(credentials: MotApiCredentials): Promise<string | null> {
+    if (cachedToken && Date.now() < cachedToken.expiresAt) return cachedToken.token;
+
+    const response = await fetch(credentials.tokenUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_id: credentials.clientId,
+            client_secret: credentials.clientSecret,
+            scope: MOT_API_SCOPE
+        })
+    });
+
+    if (!response.ok) {
+        console.error(`MOT API token request failed: ${response.status} ${response.statusText}`);
+        return null;
+    }
+
+    const data: { access_token?: string; expires_in?: number } = await response.json();
+    if (!data.access_token) return null;
+
+    // Refresh a minute early so a token never expires mid-request
+    cachedToken = { token: data.access_token, expiresAt: Date.now() + ((data.expires_in ?? 3600) - 60) * 1000 };
+    return cachedToken.token;
+}
+
+async function requestMotHistory(registration: string, credentials: MotApiCredentials): Promise<MotHistoryResult> {
+    let response: Response;
+    try {
+        const token = await getAccessToken(credentials);
+        if (!token) {
+            return { ok: false, error: { kind: 'upstream-error', status: 401 } };
+        }
+
+        response = await fetch(`${MOT_API_URL}/${encodeURIComponent(registration)}`, {
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'X-API-Key': credentials.apiKey
+            }
+        });
+    } catch (error) {
+        console.error("Error fetching MOT history:", error);
+        return { ok: false, error: { kind: 'network-error' } };
+    }
+
+    if (response.status === 404) {
+        return { ok: false, error: { kind: 'not-found' } };
+    }
+
+    if (response.status === 429) {
+        console.error("MOT API rate limit reached");
+        const retryAfter = parseInt(response.headers.get('Retry-After') ?? '', 10);
+        return { ok: false, error: { kind: 'rate-limited', retryAfterSeconds: isNaN(retryAfter) ? undefined : retryAfter } };
+    }
+
+    if (!response.ok) {
+        console.error(`MOT API Error: ${response.status} ${response.statusText}`);
+        return { ok: false, error: { kind: 'upstream-error', status: response.status } };
+    }
+
+    let data: DvsaMotResponse;
+    try {
+        data = await response.json();
+    } catch (error) {
+        console.error("MOT API returned invalid JSON:", error);
+        return { ok: false, error: { kind: 'malformed-response' } };
+    }
+
+    if (!data || typeof data.registration !== 'string') {
+        console.error("MOT API response is missing registration");
+        return { ok: false, error: { kind: 'malformed-response' } };
+    }
+
+    return { ok: true, history: mapMotResponse(data), source: 'dvsa' };
+}
@@ -0,0 +1,226 @@
+/**
+ * UK Registration Plate Parser
+ * Recognises the plate formats issued by the DVLA (and DVA in Northern Ireland):
+ * - Current (2001+): AB12 CDE — two-digit age identifier
+ * - Prefix (1983-2001): A123 BCD — leading year letter
+ * - Suffix (1963-1983): ABC 123D — trailing year letter
+ * - Dateless (pre-1963): ABC 123 / 123 ABC — no age information
+ * - Northern Ireland: ABZ 1234 — county code containing I or Z, no age information
+ *
+ * Age-related formats are decoded into the registration period they were issued in,
+ * so impossible plates (e.g. an age identifier that hasn't been issued yet) can be
+ * rejected before we spend a DVLA call.
+ */
+
+export type PlateFormat = 'current' | 'prefix' | 'suffix' | 'dateless' | 'northern-ireland';
+
+export interface YearMonth {
+    year: number;
+    month: number; // 1-12
+}
+
+/**
+ * The window in which plates with this age identifier were issued (inclusive)
+ */
+export interface RegistrationPeriod {
+    from: YearMonth;
+    to: YearMonth;
+}
+
+export interface ParsedPlate {
+    normalised: string;     // Uppercase, no spaces (e.g. "AB12CDE")
+    display: string;        // Conventional spacing (e.g. "AB12 CDE")
+    format: PlateFormat;
+    period: RegistrationPeriod | null; // null for dateless and Northern Ireland plates
+}
+
+export type PlateParseResult =
+    | { valid: true; plate: ParsedPlate }
+    | { valid: false; normalised: string; reason: string };
+
+// Year letters skip I, O, Q, U and Z (too easily confused with digits)
+const YEAR_LETTERS = 'ABCDEFGHJKLMNPRSTVWXY';
+
+// Suffix plates: A-D ran for calendar years, E was cut short so F could start in August 1967
+const SUFFIX_PERIODS: { [letter: string]: RegistrationPeriod } = buildLetterPeriods({
+    A: [[1963, 1], [1963, 12]],
+    B: [[1964, 1], [1964, 12]],
+    C: [[1965, 1], [1965, 12]],
+    D: [[1966, 1], [1966, 12]],
+    E: [[1967, 1], [1967, 7]],
+}, 'F', 1967);
+
+// Prefix plates: August-to-July years until R, then six-monthly from S (1998)
+const PREFIX_PERIODS: { [letter: string]: RegistrationPeriod } = {
+    ...buildLetterPeriods({}, 'A', 1983, 'R'),
+    S: { from: { year: 1998, month: 8 }, to: { year: 1999, month: 2 } },
+    T: { from: { year: 1999, month: 3 }, to: { year: 1999, month: 8 } },
+    V: { from: { year: 1999, month: 9 }, to: { year: 2000, month: 2 } },
+    W: { from: { year: 2000, month: 3 }, to: { year: 2000, month: 8 } },
+    X: { from: { year: 2000, month: 9 }, to: { year: 2001, month: 2 } },
+    Y: { from: { year: 2001, month: 3 }, to: { year: 2001, month: 8 } },
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const CURRENT_PATTERN = /^([A-Z]{2})(\d{2})([A-Z]{3})$/;
+const PREFIX_PATTERN = /^([A-Z])(\d{1,3})([A-Z]{3})$/;
+const SUFFIX_PATTERN = /^([A-Z]{3})(\d{1,3})([A-Z])$/;
+const NI_PATTERN = /^([A-Z]{0,1}(?:[A-Z][IZ]|[IZ][A-Z]))(\d{1,4})$/;
+const DATELESS_LETTERS_FIRST = /^([A-Z]{1,3})(\d{1,4})$/;
+const DATELESS_DIGITS_FIRST = /^(\d{1,4})([A-Z]{1,3})$/;
+
+/**
+ * Build August-to-July periods for consecutive year letters
+ */
+function buildLetterPeriods(
+    fixed: { [letter: string]: [[number, number], [number, number]] },
+    firstAugustLetter: string,
+    firstYear: number,
+    lastAugustLetter: string = 'Y'
+): { [letter: string]: RegistrationPeriod } {
+    const periods: { [letter: string]: RegistrationPeriod } = {};
+
+    for (const [letter, [[fromYear, fromMonth], [toYear, toMonth]]] of Object.entries(fixed)) {
+        periods[letter] = { from: { year: fromYear, month: fromMonth }, to: { year: toYear, month: toMonth } };
+    }
+
+    const start = YEAR_LETTERS.indexOf(firstAugustLetter);
+    const end = YEAR_LETTERS.indexOf(lastAugustLetter);
+    for (let i = start; i <= end; i++) {
+        const year = firstYear + (i - start);
+        periods[YEAR_LETTERS[i]] = { from: { year, month: 8 }, to: { year: year + 1, month: 7 } };
+    }
+
+    return periods;
+}
+
+/**
+ * Strip whitespace and uppercase a plate for lookups
+ */
+export function normalisePlate(registration: string): string {
+    return registration.replace(/\s/g, '').toUpperCase();
+}
+
+/**
+ * Decode a current-format age identifier (e.g. "12" = March 2012, "62" = September 2012)
+ */
+export function decodeAgeIdentifier(ageIdentifier: number): RegistrationPeriod | null {
+    // 00, 01 and 50 were never issued (the format started with 51 in September 2001)
+    if (ageIdentifier < 2 || ageIdentifier === 50 || ageIdentifier > 99) return null;
+
+    if (ageIdentifier < 50) {
+        const year = 2000 + ageIdentifier;
+        return { from: { year, month: 3 }, to: { year, month: 8 } };
+    }
+
+    const year = 2000 + ageIdentifier - 50;
+    return { from: { year, month: 9 }, to: { year: year + 1, month: 2 } };
+}
+
+/**
+ * Parse and validate a UK registration plate.
+ *
+ * @param {string} registration - The plate as typed by the user (spacing and case are ignored).
+ * @param {Date} [asOf] - Date used to reject age identifiers that haven't been issued yet. Defaults to now.
+ * @returns {PlateParseResult} The decoded plate, or the reason it was rejected.
+ */
+export function parsePlate(registration: string, asOf: Date = new Date()): PlateParseResult {
+    const normalised = normalisePlate(registration);
+
+    if (!/^[A-Z0-9]+$/.test(normalised)) {
+        return { valid: false, normalised, reason: 'Registrations can only contain letters and numbers' };
+    }
+
+    if (normalised.length < 2 || normalised.length > 7) {
+        return { valid: false, normalised, reason: 'Registrations are between 2 and 7 characters long' };
+    }
+
+    let match = normalised.match(CURRENT_PATTERN);
+    if (match) {
+        const period = decodeAgeIdentifier(parseInt(match[2], 10));
+        if (!period) {
+            return { valid: false, normalised, reason: `"${match[2]}" is not a valid age identifier` };
+        }
+        if (isAfter(period.from, asOf)) {
+            return { valid: false, normalised, reason: `"${match[2]}" plates have not been issued yet` };
+        }
+        return plate(normalised, `${match[1]}${match[2]} ${match[3]}`, 'current', period);
+    }
+
+    match = normalised.match(PREFIX_PATTERN);
+    if (match) {
+        const period = PREFIX_PERIODS[match[1]];
+        if (!period) {
+            return { valid: false, normalised, reason: `"${match[1]}" was never used as a prefix year letter` };
+        }
+        return plate(normalised, `${match[1]}${match[2]} ${match[3]}`, 'prefix', period);
+    }
+
+    match = normalised.match(SUFFIX_PATTERN);
+    if (match) {
+        const period = SUFFIX_PERIODS[match[3]];
+        if (!period) {
+            return { valid: false, normalised, reason: `"${match[3]}" was never used as a suffix year letter` };
+        }
+        return plate(normalised, `${match[1]} ${match[2]}${match[3]}`, 'suffix', period);
+    }
+
+    match = normalised.match(NI_PATTERN);
+    if (match) {
+        return plate(normalised, `${match[1]} ${match[2]}`, 'northern-ireland', null);
+    }
+
+    match = normalised.match(DATELESS_LETTERS_FIRST) || normalised.match(DATELESS_DIGITS_FIRST);
+    if (match) {
+        return plate(normalised, `${match[1]} ${match[2]}`, 'dateless', null);
+    }
+
+    return { valid: false, normalised, reason: 'This does not look like a UK registration' };
+}
+
+/**
+ * Cross-check a year of manufacture against the plate's registration period.
+ *
+ * Age-related plates can be moved onto a newer car (cherished transfers) but never onto
+ * an older one, so a car built more than a year before its plate was issued, one with no
+ * year at all, or one "built" in the future is treated as bad data and replaced with the
+ * first year of the registration period.
+ */
+export function reconcileYearOfManufacture(
+    yearOfManufacture: number | undefined,
+    plate: ParsedPlate,
+    asOf: Date = new Date()
+): { year: number | undefined; source: 'record' | 'plate' } {
+    if (!plate.period) {
+        return { year: yearOfManufacture, source: 'record' };
+    }
+
+    const missing = !yearOfManufacture || isNaN(yearOfManufacture);
+    const inFuture = !missing && yearOfManufacture! > asOf.getFullYear();
+    const olderThanPlate = !missing && yearOfManufacture! < plate.period.from.year - 1;
+
+    if (missing || inFuture || olderThanPlate) {
+        return { year: plate.period.from.year, source: 'plate' };
+    }
+
+    return { year: yearOfManufacture, source: 'record' };
+}
+
+/**
+ * Format a registration period for display (e.g. "Sep 2012 – Feb 2013")
+ */
+export function formatRegistrationPeriod(period: RegistrationPeriod): string {
+    const fmt = ({ year, month }: YearMonth) => `${MONTH_NAMES[month - 1]} ${year}`;
+    return `${fmt(period.from)} – ${fmt(period.to)}`;
+}
+
+function plate(normalised: string, display: string, format: PlateFormat, period: RegistrationPeriod | null): PlateParseResult {
+    return { valid: true, plate: { normalised, display, format, period } };
+}
+
+function isAfter(ym: YearMonth, date: Date): boolean {
+    const dateYear = date.getFullYear();
+    const dateMonth = date.getMonth() + 1;
+    return ym.year > dateYear || (ym.year === dateYear && ym.month > dateMonth);
+}
@@ -0,0 +1,107 @@
+/**
+ * Special Variants
+ * Performance and enthusiast variants (an AMG, a Fiesta ST, a Civic Type R) hold their value
+ * differently from the standard car, so their curve rate is multiplied by a special modifier.
+ * Shared by the app (`depreciationCalculator.ts`) and the pipeline scripts, which exclude
+ * special variants from the standard curves and fit the modifiers.
+ *
+ * Each rule matches whole-word keywords in the model, variant, advert title or make, and can be
+ * limited to certain makes ("ST" is only a Ford performance badge). Exclusions are removed
+ * before matching, so trim levels named after a badge ("ST-Line", "AMG Line") don't count.
+ * Rules are checked in order; the first match wins.
+ */
+
+export interface SpecialVariantRule {
+    id: string;          // Key for per-rule modifiers in the curves datasets (`ruleModifiers`)
+    label: string;
+    keywords: string[];  // Upper case, matched as whole words
+    makes?: string[];    // Lower case; unset = any make
+    exclude?: string[];  // Upper case phrases ignored before matching keywords
+}
+
+export const SPECIAL_VARIANT_RULES: SpecialVariantRule[] = [
+    { id: 'mercedes-amg', label: 'Mercedes-AMG', keywords: ['AMG'], makes: ['mercedes-benz'], exclude: ['AMG LINE'] },
+    { id: 'bmw-m', label: 'BMW M car', keywords: ['M3', 'M4', 'M5'], makes: ['bmw'] },
+    { id: 'bmw-m-sport', label: 'BMW M Sport', keywords: ['M SPORT'], makes: ['bmw'] },
+    { id: 'audi-s', label: 'Audi S model', keywords: ['S3', 'S4', 'S5'], makes: ['audi'] },
+    { id: 'rs', label: 'RS model', keywords: ['RS', 'RS3', 'RS4', 'RS5', 'RS6', 'RS7'], makes: ['audi', 'ford', 'renault'] },
+    { id: 'ford-st', label: 'Ford ST', keywords: ['ST'], makes: ['ford'], exclude: ['ST-LINE', 'ST LINE'] },
+    { id: 'ford-cosworth', label: 'Ford Cosworth', keywords: ['COSWORTH'], makes: ['ford'] },
+    { id: 'ford-american', label: 'American Ford', keywords: ['MUSTANG', 'F150', 'ECONOLINE'], makes: ['ford'] },
+    { id: 'honda-type-r', label: 'Honda Type R', keywords: ['TYPE R', 'R TYPE'], makes: ['honda'] },
+    { id: 'gti', label: 'GTI', keywords: ['GTI'], makes: ['volkswagen', 'peugeot'] },
+    { id: 'cupra', label: 'Cupra', keywords: ['CUPRA'], makes: ['seat', 'cupra'] },
+    { id: 'abarth', label: 'Abarth', keywords: ['ABARTH'], makes: ['abarth', 'fiat'] },
+    { id: 'vauxhall-vxr', label: 'Vauxhall VXR', keywords: ['VXR'], makes: ['vauxhall'] },
+    { id: 'mini-jcw', label: 'MINI John Cooper Works', keywords: ['JOHN COOPER WORKS', 'JCW'], makes: ['mini'] },
+    { id: 'alfa-quadrifoglio', label: 'Alfa Romeo Quadrifoglio', keywords: ['QUADRIFOGLIO'], makes: ['alfa romeo'] },
+    { id: 'gt', label: 'GT', keywords: ['GT'], exclude: ['GT LINE', 'GT-LINE'] }
+];
+
+/**
+ * Vehicle text a rule is matched against (a `Car`, or an advert in the pipeline)
+ */
+export interface SpecialVariantFields {
+    make: string;
+    model: string;
+    variant?: string;
+    title?: string;
+}
+
+export type SpecialVariantField = 'model' | 'variant' | 'title' | 'make';
+
+export interface SpecialVariantMatch {
+    ruleId: string;
+    label: string;
+    keyword: string;              // The keyword that matched
+    field: SpecialVariantField;   // Where it was found
+}
+
+const MATCH_FIELDS: SpecialVariantField[] = ['model', 'variant', 'title', 'make'];
+
+const FIELD_NAMES: Record<SpecialVariantField, string> = {
+    model: 'model name',
+    variant: 'variant',
+    title: 'listing title',
+    make: 'make'
+};
+
+/**
+ * Find the first special variant rule a vehicle matches.
+ *
+ * @param {SpecialVariantFields} vehicle - Make, model and (optionally) variant and title.
+ * @returns {SpecialVariantMatch | null} The rule, keyword and field that matched, or null for a standard car.
+ */
+export function matchSpecialVariant(vehicle: SpecialVariantFields): SpecialVariantMatch | null {
+    const make = vehicle.make.trim().toLowerCase();
+
+    for (const rule of SPECIAL_VARIANT_RULES) {
+        if (rule.makes && !rule.makes.includes(make)) continue;
+
+        for (const field of MATCH_FIELDS) {
+            let text = (vehicle[field] ?? '').toUpperCase();
+            for (const phrase of rule.exclude ?? []) {
+                text = text.replace(wholeWord(phrase, 'g'), ' ');
+            }
+
+            const keyword = rule.keywords.find(k => wholeWord(k).test(text));
+            if (keyword) {
+                return { ruleId: rule.id, label: rule.label, keyword, field };
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Explain a match for display, e.g. `Ford ST ("ST" in the model name)`
+ */
+export function describeSpecialVariant(match: SpecialVariantMatch): string {
+    return `${match.label} ("${match.keyword}" in the ${FIELD_NAMES[match.field]})`;
+}
+
+function wholeWord(phrase: string, flags = ''): RegExp {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![A-Z0-9])${escaped}(?![A-Z0-9])`, flags);
+}
@@ -1,182 +1,385 @@
 import type { Car } from './carService';
+import { vedRulesInForce } from './vedRules';
 
 /**
  * UK VED (Vehicle Excise Duty) Calculator
- * Implements accurate rules (2024/2025 + future Budget 2025 changes) including:
+ * Implements the rules for each tax year (see `vedRules.ts`), including:
  * - CO₂-based first-year rates (for new vehicles)
  * - Standard flat rate (for subsequent years)
  * - Expensive car supplement (£40k/£50k threshold depending on fuel/year)
- * - Registration era logic (pre-2017 vs post-2017)
- */
-
-// First-year rates for cars registered on/after April 2025
-// Based on official GOV.UK rates
-const FIRST_YEAR_RATES_PETROL: [number, number][] = [
-    [0, 10],      // 0 g/km
-    [50, 110],    // 1-50 g/km
-    [75, 130],    // 51-75 g/km
-    [90, 270],    // 76-90 g/km
-    [100, 350],   // 91-100 g/km
-    [110, 390],   // 101-110 g/km
-    [130, 440],   // 111-130 g/km
-    [150, 540],   // 131-150 g/km
-    [170, 1360],  // 151-170 g/km
-    [190, 2190],  // 171-190 g/km
-    [225, 3300],  // 191-225 g/km
-    [255, 4680],  // 226-255 g/km
-    [Infinity, 5490], // 255+ g/km
-];
+ * - Registration era logic (engine size before March 2001, CO₂ bands until March 2017,
+ *   then the flat standard rate)
+ * - Part years: tax is paid for the months owned, with whole unused months refunded on sale
+ * - Historic vehicles: cars built over 40 years ago (rolling 1 January cut-off, from each
+ *   1 April) are exempt from the month they become eligible
+ * - SORN: calendar months the owner declares the car off the road each year aren't taxed
+ *
+ * Eras, the car's age and the supplement's window follow the date of first registration
+ * (`dateOfFirstRegistration`), as the law does. Cars without one (local records, manual
+ * entries) are assumed to have been registered mid-way through their year of manufacture.
+ *
+ * Each year of a forecast is charged at the rates in force when that year's tax is paid
+ * (the start of the ownership year). Years after the latest rule set use its rates.
+ */
 
-// Diesel cars (non-RDE2) pay higher first-year rates
-const FIRST_YEAR_RATES_DIESEL: [number, number][] = [
-    [0, 10],
-    [50, 130],
-    [75, 270],
-    [90, 350],
-    [100, 390],
-    [110, 440],
-    [130, 540],
-    [150, 1360],
-    [170, 2190],
-    [190, 3300],
-    [225, 4680],
-    [255, 5490],
-    [Infinity, 5490],
-];
+/**
+ * A CO₂ band: emissions up to `maxCo2` g/km pay `rate`. The last band has no `maxCo2`.
+ */
+export interface VEDBand {
+    maxCo2?: number;
+    rate: number;
+}
+
+/**
+ * An engine size band: engines up to `maxCc` cc pay `rate`. The last band has no `maxCc`.
+ */
+export interface VEDEngineBand {
+    maxCc?: number;
+    rate: number;
+}
+
+/**
+ * The VED rates in force from `effectiveFrom` until the next rule set
+ */
+export interface VEDRuleSet {
+    taxYear: string;            // e.g. "2025/26"
+    effectiveFrom: string;      // YYYY-MM-DD (usually 1 April)
+    source: string;             // Where the rates come from
+    zeroEmissionExempt: boolean; // Electric cars pay nothing (before April 2025)
+    firstYearRates: {
+        standard: VEDBand[];    // Petrol, hybrid and other fuels
+        diesel: VEDBand[];      // Diesel (non-RDE2 assumed) pays one band higher
+    };
+    standardRate: number;       // Annual rate for post-2017 cars (year 2+)
+    pre2017Rates: VEDBand[];    // Annual CO₂ bands for cars registered March 2001 - March 2017
+    pre2001Rates: VEDEngineBand[]; // Annual engine size bands for cars registered before March 2001
+    expensiveCar: {
+        supplement: number;     // Extra annual charge
+        threshold: number;      // Standard list price threshold
+        electricThreshold?: number;                // Higher threshold for new electric cars
+        electricThresholdRegisteredFrom?: string;  // ...first registered on or after this date (YYYY-MM-DD)
+    };
+    historicVehicleYears: number; // Cars built before 1 January this many years before the tax year are exempt
+}
+
+// Cars first registered before 1 March 2001 are taxed on engine size rather than CO₂
+const CO2_BANDS_REGISTERED_FROM = new Date(2001, 2, 1);
+
+// Cars first registered from 1 April 2017 pay the flat standard rate rather than CO₂ bands
+const STANDARD_RATE_REGISTERED_FROM = new Date(2017, 3, 1);
+
+// Historic vehicle exemptions roll forward at the start of each tax year (1 April)
+const TAX_YEAR_START_MONTH = 3;
 
-// Pre-2017 cars use different CO₂ bands (2024/25 rates)
-const PRE_2017_RATES: [number, number][] = [
-    [100, 0],
-    [110, 20],
-    [120, 35],
-    [130, 160],
-    [140, 175],
-    [150, 200],
-    [165, 255],
-    [175, 290],
-    [185, 330],
-    [200, 360],
-    [225, 400],
-    [255, 600],
-    [Infinity, 660],
+/**
+ * Seasons offered as shortcuts when choosing SORN months (calendar months, 1-12)
+ */
+export const SORN_SEASONS: readonly { name: string; months: readonly number[] }[] = [
+    { name: 'Winter', months: [12, 1, 2] },
+    { name: 'Spring', months: [3, 4, 5] },
+    { name: 'Summer', months: [6, 7, 8] },
+    { name: 'Autumn', months: [9, 10, 11] }
 ];
 
-// Constants
-const STANDARD_RATE = 195;              // Annual rate for post-2017 cars (year 2+)
-const EXPENSIVE_CAR_SUPPLEMENT = 425;   // Extra annual charge
-const EXPENSIVE_CAR_THRESHOLD = 40000;  // Standard list price threshold
-const EXPENSIVE_EV_THRESHOLD = 50000;   // New EV threshold (from April 2025)
+/**
+ * How a car's annual VED is worked out, by when it was first registered
+ */
+export type VEDRegime = 'engine-size' | 'co2-bands' | 'standard-rate';
+
+const REGIME_LABELS: Record<VEDRegime, string> = {
+    'engine-size': 'Engine size (pre-Mar 2001)',
+    'co2-bands': 'CO₂ bands (Mar 2001 – Mar 2017)',
+    'standard-rate': 'Standard rate (Apr 2017 on)'
+};
+
+// Local midnight on a YYYY-MM or YYYY-MM-DD date (a month is taken as its first day)
+function localDate(value: string): Date {
+    const [year, month, day = 1] = value.split('-').map(n => parseInt(n, 10));
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * When the car was first registered: `dateOfFirstRegistration` where known (DVLA gives
+ * the month, taken as its first day), else 1 July of its year of manufacture
+ */
+export function firstRegistrationDate(car: Car): Date {
+    return car.dateOfFirstRegistration
+        ? localDate(car.dateOfFirstRegistration)
+        : new Date(car.yearOfManufacture, 6, 1);
+}
+
+/**
+ * The VED regime for a car's annual rate (year 2+)
+ */
+export function getVEDRegime(car: Car): VEDRegime {
+    const registered = firstRegistrationDate(car);
+    if (registered < CO2_BANDS_REGISTERED_FROM) return 'engine-size';
+    if (registered < STANDARD_RATE_REGISTERED_FROM) return 'co2-bands';
+    return 'standard-rate';
+}
+
+/**
+ * The VED regime as shown on the vehicle card (e.g. "CO₂ bands (Mar 2001 – Mar 2017)").
+ * Engine size cars without a known capacity say that the larger band is assumed.
+ */
+export function describeVEDRegime(car: Car): string {
+    const regime = getVEDRegime(car);
+    const label = REGIME_LABELS[regime];
+    return regime === 'engine-size' && !car.engineCapacity ? `${label}, over 1549cc assumed` : label;
+}
+
+/**
+ * Which year of the car's life a date falls in (1 = the 12 months from first registration)
+ */
+export function vehicleAgeOn(car: Car, on: Date): number {
+    const registered = firstRegistrationDate(car);
+    let years = on.getFullYear() - registered.getFullYear();
+    const anniversary = new Date(registered);
+    anniversary.setFullYear(registered.getFullYear() + years);
+    if (on < anniversary) years--;
+    return Math.max(1, years + 1);
+}
 
 /**
  * Get the rate from a banded table based on CO₂ emissions
  */
-function getRateFromTable(co2: number, table: [number, number][]): number {
-    for (const [threshold, rate] of table) {
-        if (co2 <= threshold) return rate;
+function getRateFromTable(co2: number, table: VEDBand[]): number {
+    for (const band of table) {
+        if (band.maxCo2 === undefined || co2 <= band.maxCo2) return band.rate;
     }
-    return table[table.length - 1][1];
+    return table[table.length - 1].rate;
 }
 
 /**
  * Calculate first-year VED rate based on emissions and fuel type
+ * @param on - When the tax is paid (the rates in force then). Defaults to now.
  */
-export function getFirstYearRate(car: Car): number {
+export function getFirstYearRate(car: Car, on: Date = new Date()): number {
+    const rules = vedRulesInForce(on);
     const fuel = car.fuelType.toUpperCase();
     const co2 = car.co2Emissions;
 
-    // Electric vehicles: £10 first year (from April 2025)
     if (fuel === 'ELECTRIC') {
-        return 10;
+        return rules.zeroEmissionExempt ? 0 : getRateFromTable(0, rules.firstYearRates.standard);
     }
 
     // Diesel (non-RDE2 assumed) gets higher rates
     if (fuel === 'DIESEL') {
-        return getRateFromTable(co2, FIRST_YEAR_RATES_DIESEL);
+        return getRateFromTable(co2, rules.firstYearRates.diesel);
     }
 
     // Petrol, Hybrid, and other fuels
-    return getRateFromTable(co2, FIRST_YEAR_RATES_PETROL);
+    return getRateFromTable(co2, rules.firstYearRates.standard);
 }
 
 /**
  * Calculate standard annual VED rate (year 2+)
+ * @param on - When the tax is paid (the rates in force then). Defaults to now.
  */
-export function getStandardRate(car: Car): number {
-    const year = car.yearOfManufacture;
+export function getStandardRate(car: Car, on: Date = new Date()): number {
+    const rules = vedRulesInForce(on);
     const co2 = car.co2Emissions;
 
+    if (car.fuelType.toUpperCase() === 'ELECTRIC' && rules.zeroEmissionExempt) {
+        return 0;
+    }
+
+    const regime = getVEDRegime(car);
+
+    // Pre-March 2001 cars are taxed on engine size (many have no CO₂ figure).
+    // Without a known capacity, assume the larger engine band.
+    if (regime === 'engine-size') {
+        const bands = rules.pre2001Rates;
+        if (!car.engineCapacity) return bands[bands.length - 1].rate;
+        return bands.find(band => band.maxCc === undefined || car.engineCapacity! <= band.maxCc)!.rate;
+    }
+
     // Pre-April 2017 cars use CO₂ bands even for subsequent years
-    if (year < 2017) {
-        return getRateFromTable(co2, PRE_2017_RATES);
+    if (regime === 'co2-bands') {
+        return getRateFromTable(co2, rules.pre2017Rates);
     }
 
-    // Post-2017 cars: flat £195 standard rate (including EVs from April 2025)
-    return STANDARD_RATE;
+    // Post-2017 cars: flat standard rate (including EVs from April 2025)
+    return rules.standardRate;
+}
+
+/**
+ * Whether a car is exempt as a historic vehicle on a date: built before 1 January of the
+ * year `historicVehicleYears` before the tax year the date falls in (e.g. from 1 April 2026,
+ * cars built in 1985 or earlier)
+ */
+export function isHistoricVehicle(car: Car, on: Date = new Date()): boolean {
+    const taxYearStart = on.getMonth() >= TAX_YEAR_START_MONTH ? on.getFullYear() : on.getFullYear() - 1;
+    return car.yearOfManufacture < taxYearStart - vedRulesInForce(on).historicVehicleYears;
 }
 
 /**
  * Calculate expensive car supplement for a given vehicle age (NOT ownership year)
- * Returns £425 if applicable for that specific year of the vehicle's life
+ * Returns the supplement if applicable for that specific year of the vehicle's life
+ * @param on - When the tax is paid (the rates in force then). Defaults to now.
  */
-export function getExpensiveCarSupplement(car: Car, vehicleAge: number): number {
-    // Supplement applies from vehicle year 2 to year 6 (5 years total)
-    if (vehicleAge < 2 || vehicleAge > 6) {
+export function getExpensiveCarSupplement(car: Car, vehicleAge: number, on: Date = new Date()): number {
+    // Supplement applies from vehicle year 2 to year 6 (5 years total), to cars on the standard rate
+    if (vehicleAge < 2 || vehicleAge > 6 || getVEDRegime(car) !== 'standard-rate') {
         return 0;
     }
 
+    const { zeroEmissionExempt, expensiveCar } = vedRulesInForce(on);
     const fuel = car.fuelType.toUpperCase();
 
-    // Determine the threshold based on Fuel and Registration Year
-    // EVs registered on/after 2025 get the £50k threshold
-    let threshold = EXPENSIVE_CAR_THRESHOLD;
+    if (fuel === 'ELECTRIC' && zeroEmissionExempt) {
+        return 0;
+    }
 
-    if (fuel === 'ELECTRIC' && car.yearOfManufacture >= 2025) {
-        threshold = EXPENSIVE_EV_THRESHOLD;
+    // Determine the threshold based on Fuel and Registration Date
+    // New EVs get a higher threshold where the rules set one
+    let threshold = expensiveCar.threshold;
+
+    const { electricThreshold, electricThresholdRegisteredFrom } = expensiveCar;
+    if (
+        fuel === 'ELECTRIC' &&
+        electricThreshold !== undefined &&
+        (electricThresholdRegisteredFrom === undefined || firstRegistrationDate(car) >= localDate(electricThresholdRegisteredFrom))
+    ) {
+        threshold = electricThreshold;
     }
 
     // Check if car exceeds calculated threshold
     if (car.originalListPrice > threshold) {
-        return EXPENSIVE_CAR_SUPPLEMENT;
+        return expensiveCar.supplement;
     }
 
     return 0;
 }
 
 /**
- * Calculate total VED for a given ownership period
+ * VED charged in a single year of ownership
+ */
+export interface VEDYear {
+    ownershipYear: number;  // 1-based year of ownership
+    vehicleAge: number;     // 1-based year of the vehicle's life, from first registration
+    months: number;         // Months owned in this year (12 except a final part year)
+    rate: number;           // First-year or standard rate
+    supplement: number;     // Expensive car supplement (0 if not applicable)
+    refund: number;         // Returned for whole months not taxed (after a sale, SORN or historic)
+    total: number;          // rate + supplement - refund
+    sornMonths?: number;    // Months owned but declared off the road (SORN), refunded
+    historicMonths?: number; // Months owned while exempt as a historic vehicle
+    rules?: string;         // Tax year whose rates applied (e.g. "2025/26"), where rates change by year
+}
+
+/**
+ * Months owned in each year of an ownership period (e.g. 2.5 years -> [12, 12, 6]).
+ * Fractional years are rounded to whole months.
+ */
+export function monthsByOwnershipYear(ownershipYears: number): number[] {
+    const months = Math.max(0, Math.round(ownershipYears * 12));
+    return Array.from({ length: Math.ceil(months / 12) }, (_, i) => Math.min(12, months - i * 12));
+}
+
+/**
+ * Refund of the whole months left in a tax year when the car is sold. The month of sale
+ * isn't refunded, so it counts as owned. SORN and historic months are refunded the same way.
+ */
+export function unusedMonthsRefund(annualAmount: number, monthsOwned: number): number {
+    return Math.round(((annualAmount * (12 - monthsOwned)) / 12) * 100) / 100;
+}
+
+export type SornParseResult =
+    | { valid: true; months: number[] }
+    | { valid: false; reason: string };
+
+/**
+ * Parse SORN months, e.g. from `?sorn=11,12,1,2`. Blank means none.
+ *
+ * @param {string | null | undefined} value - Comma-separated calendar months (1-12).
+ * @returns {SornParseResult} The months (sorted, without repeats), or why they were rejected.
+ */
+export function parseSornMonths(value: string | null | undefined): SornParseResult {
+    const trimmed = value?.trim();
+    if (!trimmed) return { valid: true, months: [] };
+
+    const months = trimmed.split(',').map(part => Number(part.trim()));
+    if (months.some(month => !Number.isInteger(month) || month < 1 || month > 12)) {
+        return { valid: false, reason: 'Give calendar months from 1 to 12, separated by commas (e.g. 11,12,1,2).' };
+    }
+    return { valid: true, months: [...new Set(months)].sort((a, b) => a - b) };
+}
+
+/**
+ * Calculate the year-by-year VED for a given ownership period
  * @param car - The car object
- * @param ownershipYears - Total years of ownership
- * @returns Total VED for the ownership period
+ * @param ownershipYears - Total years of ownership (may be fractional, e.g. 30 months = 2.5)
+ * @param asOf - Valuation date (when ownership starts). Defaults to now.
+ * @param sornMonths - Calendar months (1-12) the car is declared off the road each year
+ * @returns One entry per (part) year of ownership, each at the rates in force when it starts
  */
-export function calculateTotalVED(car: Car, ownershipYears: number): number {
-    const currentYear = new Date().getFullYear(); // Assume calculation is happening 'now'
+export function calculateVEDBreakdown(
+    car: Car,
+    ownershipYears: number,
+    asOf: Date = new Date(),
+    sornMonths: readonly number[] = []
+): VEDYear[] {
+    const years: VEDYear[] = [];
 
-    let totalVED = 0;
+    monthsByOwnershipYear(ownershipYears).forEach((months, i) => {
+        // Each year's tax is paid up front, at the rates in force on that day
+        const paidOn = new Date(asOf);
+        paidOn.setFullYear(asOf.getFullYear() + i);
 
-    // Determine the vehicle's age at the start of ownership
-    // If manufactured in 2021 and it's now 2025, it's starting its 5th year (approx)
-    // 2021 (Year 1), 2022 (2), 2023 (3), 2024 (4), 2025 (Year 5)
-    const vehicleAgeAtPurchase = Math.max(1, (currentYear - car.yearOfManufacture) + 1);
+        // The year of the car's life it's in then, counted from first registration
+        const currentVehicleAge = vehicleAgeOn(car, paidOn);
 
-    for (let i = 0; i < ownershipYears; i++) {
-        const currentVehicleAge = vehicleAgeAtPurchase + i;
-        let annualVED: number;
+        // Brand new car (Year 1 of life) pays the first-year rate, subsequent years the standard rate
+        const rate = currentVehicleAge === 1 ? getFirstYearRate(car, paidOn) : getStandardRate(car, paidOn);
+
+        // Add expensive car supplement if applicable for this specific vehicle age
+        const supplement = getExpensiveCarSupplement(car, currentVehicleAge, paidOn);
 
-        if (currentVehicleAge === 1) {
-            // Brand new car (Year 1 of life)
-            annualVED = getFirstYearRate(car);
-        } else {
-            // Subsequent years
-            annualVED = getStandardRate(car);
+        // Months owned that aren't taxed: exempt once historic, otherwise SORN
+        let historicMonths = 0;
+        let offRoadMonths = 0;
+        for (let m = 0; m < months; m++) {
+            const month = new Date(paidOn.getFullYear(), paidOn.getMonth() + m, 1);
+            if (isHistoricVehicle(car, month)) historicMonths++;
+            else if (sornMonths.includes(month.getMonth() + 1)) offRoadMonths++;
         }
 
-        // Add expensive car supplement if applicable for this specific vehicle age
-        annualVED += getExpensiveCarSupplement(car, currentVehicleAge);
+        // Exempt for the whole year: nothing to pay (or refund)
+        const exempt = historicMonths === months;
+        const annual = exempt ? 0 : rate + supplement;
 
-        totalVED += annualVED;
-    }
+        // Taxed for the full year up front; unused months come back when the car is sold or SORNed
+        const refund = unusedMonthsRefund(annual, months - historicMonths - offRoadMonths);
+
+        years.push({
+            ownershipYear: i + 1,
+            vehicleAge: currentVehicleAge,
+            months,
+            rate: exempt ? 0 : rate,
+            supplement: exempt ? 0 : supplement,
+            refund,
+            total: annual - refund,
+            sornMonths: offRoadMonths,
+            historicMonths,
+            rules: vedRulesInForce(paidOn).taxYear
+        });
+    });
+
+    return years;
+}
 
-    return totalVED;
+/**
+ * Calculate total VED for a given ownership period
+ * @param car - The car object
+ * @param ownershipYears - Total years of ownership (may be fractional)
+ * @param asOf - Valuation date (when ownership starts). Defaults to now.
+ * @param sornMonths - Calendar months (1-12) the car is declared off the road each year
+ * @returns Total VED for the ownership period
+ */
+export function calculateTotalVED(car: Car, ownershipYears: number, asOf: Date = new Date(), sornMonths: readonly number[] = []): number {
+    const total = calculateVEDBreakdown(car, ownershipYears, asOf, sornMonths).reduce((sum, year) => sum + year.total, 0);
+    return Math.round(total * 100) / 100;
 }
 
 /**
@@ -0,0 +1,204 @@
+import type { Car } from './carService';
+import { getProviderForCar, type TaxYear } from './countries';
+import { calculateResidualRange, getCurveSource, resolveAnnualMileage, type CurveSource, type DepreciationCurves } from './depreciationCalculator';
+import type { MotHistory } from './motHistory';
+import { formatAsOf } from './valuationDate';
+import { needsEnrichment, proposeModels, type ModelCandidate } from './vehicleEnrichment';
+
+/**
+ * JSON API report builders
+ * Shared by the `/api/*` routes so internal tools get the same numbers as the
+ * analyse page without scraping it. Bump API_VERSION on any breaking change
+ * to the response shape.
+ */
+
+export const API_VERSION = 1;
+
+export const MAX_TERM_YEARS = 15;
+
+export interface ResidualYear {
+    year: number;           // Years of ownership (fractional for a final part year, to 2 d.p.)
+    months: number;         // Months of ownership
+    residualFactor: number; // Fraction of purchase price retained
+    resaleValue: number;    // Rounded to whole currency units
+    resaleRange: {          // Likely range given the curve's rate spread
+        low: number;
+        high: number;
+    };
+}
+
+export interface VehicleReport {
+    apiVersion: number;
+    country: string;        // Country provider code (e.g. "gb")
+    currency: string;       // ISO 4217 code for every amount in the report
+    asOf: string;           // Valuation date (YYYY-MM-DD) the car's age and prices are measured at
+    car: Car;
+    curveSource: CurveSource;
+    residuals: ResidualYear[]; // Years 1-15
+    modelCandidates?: ModelCandidate[]; // Only for DVLA vehicles without a model/list price
+    motHistory?: MotHistory;            // Only where the country has MOT records (GB)
+}
+
+export interface TCOReport {
+    apiVersion: number;
+    country: string;
+    currency: string;
+    asOf: string;
+    car: Car;
+    curveSource: CurveSource;
+    term: {
+        years: number;          // May be fractional (months / 12, to 2 d.p.)
+        months: number;
+        purchasePrice: number;
+        annualMileage: number;  // Miles per year assumed for the resale values
+        sornMonths: number[];   // Calendar months (1-12) off the road each year, untaxed (GB only)
+    };
+    residuals: ResidualYear[]; // Years 1 to term, plus the end of a final part year
+    ved: {                  // Annual vehicle tax under the country's rules (VED in GB, motor tax in IE)
+        total: number;
+        years: TaxYear[];
+    };
+    costs: {
+        depreciation: number;
+        ved: number;
+        total: number;
+        monthly: number; // Kept to pence, like the Monthly Cost readout
+        totalRange: {    // From the final year's resale range
+            low: number;
+            high: number;
+        };
+    };
+}
+
+export interface ApiError {
+    apiVersion: number;
+    error: {
+        code: string;
+        message: string;
+    };
+}
+
+/**
+ * Year-by-year residual values for a purchase price. A fractional `years` adds a final
+ * entry for the end of the term. `dataset` defaults to the car's country curves.
+ */
+export function buildResiduals(car: Car, purchasePrice: number, years: number, asOf: Date = new Date(), dataset?: DepreciationCurves): ResidualYear[] {
+    const termMonths = Math.round(years * 12);
+    const points = Array.from({ length: Math.floor(termMonths / 12) }, (_, i) => (i + 1) * 12);
+    if (termMonths % 12 > 0) points.push(termMonths);
+
+    const residuals: ResidualYear[] = [];
+    for (const months of points) {
+        const { low, central, high } = calculateResidualRange(car, months / 12, { asOf, dataset });
+        residuals.push({
+            year: Math.round((months / 12) * 100) / 100,
+            months,
+            residualFactor: Math.round(central * 10000) / 10000,
+            resaleValue: Math.round(purchasePrice * central),
+            resaleRange: {
+                low: Math.round(purchasePrice * low),
+                high: Math.round(purchasePrice * high)
+            }
+        });
+    }
+    return residuals;
+}
+
+/**
+ * Vehicle details plus its full 15-year residual curve (priced at `basicPrice`), valued at `asOf`.
+ * DVLA vehicles missing a model or list price also get likely model candidates.
+ * `dataset` previews other curves (default: the car's country curves).
+ */
+export function buildVehicleReport(car: Car, motHistory?: MotHistory, asOf: Date = new Date(), dataset?: DepreciationCurves): VehicleReport {
+    const provider = getProviderForCar(car);
+    const report: VehicleReport = {
+        apiVersion: API_VERSION,
+        country: provider.code,
+        currency: provider.currency,
+        asOf: formatAsOf(asOf),
+        car,
+        curveSource: getCurveSource(car, dataset),
+        residuals: buildResiduals(car, car.basicPrice, MAX_TERM_YEARS, asOf, dataset)
+    };
+
+    if (needsEnrichment(car)) {
+        report.modelCandidates = proposeModels(car, asOf, dataset);
+    }
+
+    if (motHistory) {
+        report.motHistory = motHistory;
+    }
+
+    return report;
+}
+
+/**
+ * Full cost breakdown for an ownership term, mirroring TCOCalculator's maths.
+ * `termYears` may be fractional (e.g. 2.5 for 30 months): tax is charged for the months owned.
+ * `annualMileage` overrides the car's MOT-derived mileage (like the calculator's input).
+ * Ownership starts at `asOf` (default now). `sornMonths` are calendar months the car is
+ * declared off the road each year, where the country has a declaration (SORN in GB).
+ * `dataset` previews other curves (default: the car's country curves).
+ */
+export function buildTCOReport(
+    car: Car,
+    termYears: number,
+    purchasePrice: number = car.basicPrice,
+    annualMileage?: number,
+    asOf: Date = new Date(),
+    sornMonths: number[] = [],
+    dataset?: DepreciationCurves
+): TCOReport {
+    if (annualMileage !== undefined) {
+        car = { ...car, annualMileage };
+    }
+
+    const residuals = buildResiduals(car, purchasePrice, termYears, asOf, dataset);
+    const { resaleValue, resaleRange } = residuals[residuals.length - 1];
+    const provider = getProviderForCar(car);
+    const vedYears = provider.calculateTaxBreakdown(car, termYears, asOf, sornMonths);
+    const vedTotal = Math.round(vedYears.reduce((sum, year) => sum + year.total, 0) * 100) / 100; // Refunds are in pence
+
+    const depreciation = Math.max(0, purchasePrice - resaleValue);
+    const total = depreciation + vedTotal;
+    const months = Math.round(termYears * 12);
+
+    return {
+        apiVersion: API_VERSION,
+        country: provider.code,
+        currency: provider.currency,
+        asOf: formatAsOf(asOf),
+        car,
+        curveSource: getCurveSource(car, dataset),
+        term: { years: Math.round(termYears * 100) / 100, months, purchasePrice, annualMileage: Math.round(resolveAnnualMileage(car, { asOf, dataset })), sornMonths },
+        residuals,
+        ved: { total: vedTotal, years: vedYears },
+        costs: {
+            depreciation,
+            ved: vedTotal,
+            total,
+            monthly: Math.round((total / months) * 100) / 100,
+            totalRange: {
+                low: Math.max(0, purchasePrice - resaleRange.high) + vedTotal,
+                high: Math.max(0, purchasePrice - resaleRange.low) + vedTotal
+            }
+        }
+    };
+}
+
+/**
+ * Serialise an API payload with the standard headers
+ */
+export function jsonResponse(body: VehicleReport | TCOReport | ApiError, status: number = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Cache-Control': 'no-store'
+        }
+    });
+}
+
+export function errorResponse(status: number, code: string, message: string): Response {
+    return jsonResponse({ apiVersion: API_VERSION, error: { code, message } }, status);
+}
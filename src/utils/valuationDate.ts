@@ -0,0 +1,68 @@
+/**
+ * Valuation Date
+ * Every calculation (car age, depreciation, vehicle tax, price estimates) takes an explicit
+ * "as of" date, defaulting to now, so results don't shift on 1 January. A quote can be
+ * reproduced later, or a forecast backtested as if it had been made in an earlier year.
+ *
+ * Pages and the API accept `?asOf=YYYY-MM-DD` (or `YYYY-MM`, `YYYY`, taken as the first day).
+ * Pages reject invalid values before rendering; client components read the same parameter
+ * with `pageAsOf()`.
+ */
+
+const FIRST_YEAR = 1900;
+
+export type AsOfParseResult =
+    | { valid: true; date: Date }
+    | { valid: false; reason: string };
+
+/**
+ * Parse an `asOf` parameter. Missing or blank means now; future dates are rejected.
+ *
+ * @param {string | null | undefined} value - Raw parameter value.
+ * @param {Date} [now] - Current date. Defaults to now.
+ * @returns {AsOfParseResult} The date (local midnight), or why it was rejected.
+ */
+export function parseAsOf(value: string | null | undefined, now: Date = new Date()): AsOfParseResult {
+    const trimmed = value?.trim();
+    if (!trimmed) return { valid: true, date: now };
+
+    const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(trimmed);
+    if (!match) {
+        return { valid: false, reason: 'Use a date like 2024-06-30 (or 2024-06, or 2024).' };
+    }
+
+    const year = parseInt(match[1], 10);
+    const month = match[2] ? parseInt(match[2], 10) : 1;
+    const day = match[3] ? parseInt(match[3], 10) : 1;
+    const date = new Date(year, month - 1, day);
+
+    // Reject dates the Date constructor rolled over (e.g. 2023-02-30)
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+        return { valid: false, reason: `${trimmed} is not a real date.` };
+    }
+    if (year < FIRST_YEAR) {
+        return { valid: false, reason: `The valuation date can't be before ${FIRST_YEAR}.` };
+    }
+    if (date > now) {
+        return { valid: false, reason: "The valuation date can't be in the future." };
+    }
+
+    return { valid: true, date };
+}
+
+/**
+ * Format a valuation date as `YYYY-MM-DD` (local time, matching `parseAsOf`)
+ */
+export function formatAsOf(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * The current page's valuation date from its `?asOf=` parameter (browser only).
+ * Anything unparseable falls back to now, as the page has already rejected it.
+ */
+export function pageAsOf(): Date {
+    const result = parseAsOf(new URL(window.location.href).searchParams.get('asOf'));
+    return result.valid ? result.date : new Date();
+}
@@ -0,0 +1,46 @@
+import { VEDRulesSchema, parseDataset } from './dataSchemas';
+import type { VEDRuleSet } from './taxCalculator';
+import vedRulesData from '../data/ved_rules.json';
+
+/**
+ * VED Rule Sets
+ * UK VED rates change every April (and sometimes with a Budget). Each tax year's rates live
+ * in `src/data/ved_rules.json` as a rule set with the date it takes effect, so a forecast
+ * charges each year at the rates in force then, and a quote made with an earlier `asOf`
+ * is reproduced with the rates of the time.
+ *
+ * To add next April's rates, append a rule set with its `effectiveFrom` date: no code
+ * changes are needed. Dates after the latest rule set use its rates (rates are assumed
+ * to stay as they are until announced); dates before the earliest use the earliest.
+ */
+
+// Oldest first; validated on load (see `dataSchemas.ts`)
+const RULE_SETS: VEDRuleSet[] = parseDataset(VEDRulesSchema, vedRulesData, 'ved_rules.json').ruleSets;
+
+export const VED_RULE_SETS: readonly VEDRuleSet[] = RULE_SETS;
+
+/**
+ * The most recent rule set, for disclaimers
+ */
+export const latestVedRules: VEDRuleSet = RULE_SETS[RULE_SETS.length - 1];
+
+// Local midnight on a YYYY-MM-DD date, matching `parseAsOf`
+function effectiveDate(ruleSet: VEDRuleSet): Date {
+    const [year, month, day] = ruleSet.effectiveFrom.split('-').map(n => parseInt(n, 10));
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * The rule set in force on a date
+ *
+ * @param {Date} [on] - When the tax is paid. Defaults to now.
+ * @returns {VEDRuleSet} The latest rule set effective on or before `on` (the earliest if none is).
+ */
+export function vedRulesInForce(on: Date = new Date()): VEDRuleSet {
+    let inForce = RULE_SETS[0];
+    for (const ruleSet of RULE_SETS) {
+        if (effectiveDate(ruleSet) <= on) inForce = ruleSet;
+    }
+    return inForce;
+}
+
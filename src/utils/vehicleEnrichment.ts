@@ -0,0 +1,233 @@
+import type { Car } from './carService';
+import { calculateResidualFactor, type DepreciationCurves } from './depreciationCalculator';
+import { UNKNOWN_MODEL } from './dvla';
+import { localCars } from './localCars';
+import { MARKET_SNAPSHOT_YEAR, marketStats, type MarketYear } from './marketStats';
+
+/**
+ * Vehicle Enrichment
+ * DVLA doesn't return a model name or any prices, which leaves DVLA-fallback cars with
+ * `model: "Unknown Model"` and zero prices (breaking the VED supplement, market comparison
+ * and price auto-fill). This module proposes likely models and price ranges from the
+ * DVLA fields we do have (make, fuel, year, CO₂, engine capacity) using:
+ * - `market_stats.json`: which models were sold with this fuel around this year, and what they sold for
+ * - `cars.json`: known list prices for similar local vehicles
+ *
+ * The user confirms a candidate on the analyse page (see `ModelPicker.astro`).
+ */
+
+export interface PriceRange {
+    low: number;
+    central: number;
+    high: number;
+}
+
+export interface ModelCandidate {
+    model: string;                  // Display-cased model name
+    marketFuel: string;             // market_stats fuel key the estimate is based on
+    listings: number;               // Market listings for this model/fuel within ±1 year of manufacture
+    confidence: number;             // Share of near-year listings across all candidates (0-1)
+    listPrice: PriceRange;          // Estimated original list price
+    currentPrice: number;           // Estimated current value (used for `basicPrice`)
+    localMatch?: string;            // Registration of a similar car in cars.json, if any
+}
+
+const MIN_YEAR_SAMPLES = 3;
+const MAX_LIST_PRICE_AGE = 4;      // Only near-new listings are used to back out list prices
+const LOCAL_MATCH_CO2_TOLERANCE = 15;
+const LOCAL_MATCH_YEAR_TOLERANCE = 2;
+
+/**
+ * DVLA-fallback cars are missing the model and/or prices
+ */
+export function needsEnrichment(car: Car): boolean {
+    return car.model === UNKNOWN_MODEL || car.originalListPrice <= 0;
+}
+
+/**
+ * Map a DVLA/local fuel type to the fuel keys used in market_stats.json (best match first)
+ */
+export function marketFuelKeys(fuelType: string): string[] {
+    const fuel = fuelType.toLowerCase();
+
+    if (fuel.includes('electric') && fuel.includes('diesel')) return ['diesel hybrid', 'diesel plug-in hybrid'];
+    if (fuel.includes('hybrid') || fuel === 'petrol/electric') {
+        return ['petrol hybrid', 'petrol plug-in hybrid', 'diesel hybrid', 'diesel plug-in hybrid'];
+    }
+    if (fuel.startsWith('electric')) return ['electric'];
+    if (fuel.includes('gas') || fuel.includes('bi fuel') || fuel.includes('bi-fuel')) return ['bi fuel', 'petrol'];
+    if (fuel.includes('diesel')) return ['diesel'];
+    return [fuel];
+}
+
+/**
+ * Propose likely models for a car, best first. Current prices are for the car's age at `asOf`,
+ * using `dataset` (default: the car's country curves) to undo listing ages.
+ */
+export function proposeModels(
+    car: Car,
+    asOf: Date = new Date(),
+    dataset?: DepreciationCurves,
+    limit: number = 5
+): ModelCandidate[] {
+    const makeKey = car.make.toLowerCase().trim();
+    const models = marketStats[makeKey];
+    if (!models) return [];
+
+    const fuelKeys = marketFuelKeys(car.fuelType);
+    const localMatches = findLocalMatches(car);
+    const candidates: ModelCandidate[] = [];
+
+    for (const [modelKey, fuels] of Object.entries(models)) {
+        const marketFuel = fuelKeys.find(f => fuels[f]);
+        if (!marketFuel) continue;
+
+        const years = fuels[marketFuel];
+
+        // The model must have been sold with this fuel around the car's year of manufacture
+        let listings = 0;
+        for (let year = car.yearOfManufacture - 1; year <= car.yearOfManufacture + 1; year++) {
+            listings += years[year.toString()]?.count ?? 0;
+        }
+        if (listings === 0) continue;
+
+        const listPrice = estimateListPrice(car, years, asOf, dataset);
+        if (!listPrice) continue;
+
+        const localMatch = localMatches.find(c => c.model.toLowerCase() === modelKey);
+        if (localMatch) {
+            // A known list price beats a backed-out estimate
+            listPrice.central = localMatch.originalListPrice;
+            listPrice.low = Math.min(listPrice.low, localMatch.originalListPrice);
+            listPrice.high = Math.max(listPrice.high, localMatch.originalListPrice);
+        }
+
+        candidates.push({
+            model: localMatch?.model ?? displayModelName(modelKey),
+            marketFuel,
+            listings,
+            confidence: 0,
+            listPrice,
+            currentPrice: estimateCurrentPrice(car, years, listPrice.central, asOf, dataset),
+            localMatch: localMatch?.registration
+        });
+    }
+
+    // Local matches first (known list prices), then by how common the model was that year
+    candidates.sort((a, b) => Number(!!b.localMatch) - Number(!!a.localMatch) || b.listings - a.listings);
+
+    const top = candidates.slice(0, limit);
+    const totalListings = top.reduce((sum, c) => sum + c.listings, 0);
+    for (const candidate of top) {
+        candidate.confidence = totalListings > 0 ? Math.round((candidate.listings / totalListings) * 100) / 100 : 0;
+    }
+
+    return top;
+}
+
+/**
+ * Fill in the model and prices from a confirmed candidate
+ */
+export function applyModelCandidate(car: Car, candidate: ModelCandidate): Car {
+    return {
+        ...car,
+        model: candidate.model,
+        originalListPrice: candidate.listPrice.central,
+        basicPrice: candidate.currentPrice
+    };
+}
+
+/**
+ * Back out the original list price from near-new snapshot listings, using our own
+ * depreciation model to undo each listing's age. The range spans the per-year estimates.
+ */
+function estimateListPrice(
+    car: Car,
+    years: { [year: string]: MarketYear },
+    asOf: Date,
+    dataset?: DepreciationCurves
+): PriceRange | null {
+    // The averages are for typical mileage, so this car's own mileage mustn't adjust them
+    const newCar: Car = { ...car, yearOfManufacture: asOf.getFullYear(), currentMileage: undefined, annualMileage: undefined };
+    const estimates: { price: number; weight: number }[] = [];
+
+    for (let age = 0; age <= MAX_LIST_PRICE_AGE; age++) {
+        const stat = years[(MARKET_SNAPSHOT_YEAR - age).toString()];
+        if (!stat || stat.count < MIN_YEAR_SAMPLES) continue;
+
+        const residual = calculateResidualFactor(newCar, age, { asOf, dataset });
+        estimates.push({ price: stat.avgPrice / residual, weight: stat.count });
+    }
+
+    if (estimates.length === 0) return null;
+
+    const prices = estimates.map(e => e.price);
+    let central = weightedMedian(estimates);
+
+    // Within a model line, bigger engines usually mean higher trims: nudge towards the top of the range
+    if (car.engineCapacity && estimates.length > 1) {
+        const position = Math.max(0, Math.min(1, (car.engineCapacity - 1200) / 1800)); // 1.2L = low, 3.0L = high
+        const halfRange = (Math.max(...prices) - Math.min(...prices)) / 2;
+        central += (position - 0.5) * halfRange * 0.5;
+        central = Math.max(Math.min(...prices), Math.min(Math.max(...prices), central));
+    }
+
+    return {
+        low: roundToHundred(Math.min(...prices)),
+        central: roundToHundred(central),
+        high: roundToHundred(Math.max(...prices))
+    };
+}
+
+/**
+ * Current value: what an equivalent-age car sold for in the snapshot, else the modelled residual
+ */
+function estimateCurrentPrice(
+    car: Car,
+    years: { [year: string]: MarketYear },
+    listPrice: number,
+    asOf: Date,
+    dataset?: DepreciationCurves
+): number {
+    const currentAge = Math.max(0, asOf.getFullYear() - car.yearOfManufacture);
+    const equivalent = years[(MARKET_SNAPSHOT_YEAR - currentAge).toString()];
+
+    if (equivalent && equivalent.count >= MIN_YEAR_SAMPLES) {
+        return roundToHundred(equivalent.avgPrice);
+    }
+
+    const newCar: Car = { ...car, yearOfManufacture: asOf.getFullYear() };
+    return roundToHundred(listPrice * calculateResidualFactor(newCar, currentAge, { asOf, dataset }));
+}
+
+/**
+ * Similar cars in the local database (same make and fuel, close year and CO₂)
+ */
+function findLocalMatches(car: Car): Car[] {
+    return localCars.filter(c =>
+        c.make.toLowerCase() === car.make.toLowerCase() &&
+        c.fuelType.toLowerCase() === car.fuelType.toLowerCase() &&
+        Math.abs(c.yearOfManufacture - car.yearOfManufacture) <= LOCAL_MATCH_YEAR_TOLERANCE &&
+        (!car.co2Emissions || Math.abs(c.co2Emissions - car.co2Emissions) <= LOCAL_MATCH_CO2_TOLERANCE) &&
+        c.originalListPrice > 0
+    );
+}
+
+function weightedMedian(values: { price: number; weight: number }[]): number {
+    const sorted = [...values].sort((a, b) => a.price - b.price);
+    const half = sorted.reduce((sum, v) => sum + v.weight, 0) / 2;
+    let running = 0;
+    for (const v of sorted) {
+        running += v.weight;
+        if (running >= half) return v.price;
+    }
+    return sorted[sorted.length - 1].price;
+}
+
+function displayModelName(modelKey: string): string {
+    return modelKey.replace(/(^|[\s-])([a-z])/g, (_, sep: string, letter: string) => sep + letter.toUpperCase());
+}
+
+function roundToHundred(value: number): number {
+    return Math.round(value / 100) * 100;
+}